@@ -13,9 +13,21 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as auth from "../auth.js";
+import type * as clock from "../clock.js";
+import type * as disputes from "../disputes.js";
 import type * as games from "../games.js";
 import type * as http from "../http.js";
+import type * as migrations from "../migrations.js";
+import type * as presence from "../presence.js";
+import type * as profiles from "../profiles.js";
+import type * as questionFormats from "../questionFormats.js";
+import type * as questions from "../questions.js";
+import type * as rounds from "../rounds.js";
 import type * as router from "../router.js";
+import type * as sessions from "../sessions.js";
+import type * as teams from "../teams.js";
+import type * as tournaments from "../tournaments.js";
 import type * as validation from "../validation.js";
 
 /**
@@ -27,9 +39,21 @@ import type * as validation from "../validation.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  auth: typeof auth;
+  clock: typeof clock;
+  disputes: typeof disputes;
   games: typeof games;
   http: typeof http;
+  migrations: typeof migrations;
+  presence: typeof presence;
+  profiles: typeof profiles;
+  questionFormats: typeof questionFormats;
+  questions: typeof questions;
+  rounds: typeof rounds;
   router: typeof router;
+  sessions: typeof sessions;
+  teams: typeof teams;
+  tournaments: typeof tournaments;
   validation: typeof validation;
 }>;
 export declare const api: FilterApi<
@@ -0,0 +1,33 @@
+import { convexAuth, getAuthUserId } from "@convex-dev/auth/server";
+import { Anonymous } from "@convex-dev/auth/providers/Anonymous";
+import { Password } from "@convex-dev/auth/providers/Password";
+import { ConvexError } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import { PlayerId } from "./validation";
+
+export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
+  providers: [Password, Anonymous],
+});
+
+export const loggedInUser = query({
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    const user = await ctx.db.get(userId);
+    if (!user) return null;
+    return user;
+  },
+});
+
+/** The signed-in user's id, or null for a visitor such as a spectator screen. */
+export async function getPlayerId(ctx: QueryCtx): Promise<PlayerId | null> {
+  return await getAuthUserId(ctx);
+}
+
+/** The signed-in user's id, which doubles as their player id in every game. */
+export async function requirePlayerId(ctx: QueryCtx): Promise<PlayerId> {
+  const userId = await getPlayerId(ctx);
+  if (!userId)
+    throw new ConvexError({ message: "You must be signed in.", code: 401 });
+  return userId;
+}
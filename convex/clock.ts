@@ -0,0 +1,20 @@
+"use strict";
+
+import { query as baseQuery } from "./_generated/server";
+import { zCustomQuery } from "convex-helpers/server/zod";
+import { NoOp } from "convex-helpers/server/customFunctions";
+import { z } from "zod";
+
+const query = zCustomQuery(baseQuery, NoOp);
+
+/**
+ * Reports the server's clock, for estimating the client's offset from it.
+ * Callers pass their own send time so that every ping has distinct args and
+ * can't be answered from the query cache.
+ */
+export const ping = query({
+  args: { clientSentAtMs: z.number() },
+  handler: async (_ctx, args) => {
+    return { clientSentAtMs: args.clientSentAtMs, serverMs: Date.now() };
+  },
+});
@@ -0,0 +1,203 @@
+"use strict";
+
+import {
+  mutation as baseMutation,
+  query as baseQuery,
+  QueryCtx,
+} from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { ConvexError } from "convex/values";
+import { zCustomMutation, zCustomQuery, zid } from "convex-helpers/server/zod";
+import { customCtx, NoOp } from "convex-helpers/server/customFunctions";
+import { z } from "zod";
+import { getPlayerId, requirePlayerId } from "./auth";
+import { getGameAsHost } from "./games";
+import { canEditQuestion } from "./questions";
+import { reviseResolvedRound } from "./profiles";
+import { correctRound } from "./rounds";
+import { refreshSessionScores } from "./sessions";
+import { PlayerId } from "./validation";
+
+/** Mutations act on behalf of the signed-in player, as `ctx.playerId`. */
+const mutation = zCustomMutation(
+  baseMutation,
+  customCtx(async (ctx) => ({ playerId: await requirePlayerId(ctx) }))
+);
+const query = zCustomQuery(baseQuery, NoOp);
+
+export const flagRound = mutation({
+  args: { roundId: zid("rounds"), reason: z.string().trim().max(500) },
+  handler: async (ctx, { roundId, reason }) => {
+    if (reason === "")
+      throw new ConvexError({
+        message: "Say what's wrong with the answer.",
+        code: 400,
+      });
+    const round = await ctx.db.get(roundId);
+    if (!round) throw new ConvexError("Round not found.");
+    const game = await ctx.db.get(round.gameId);
+    if (!game) throw new ConvexError("Game not found.");
+    if (!game.players[ctx.playerId])
+      throw new ConvexError({
+        message: "You are not in this game.",
+        code: 403,
+      });
+    if (round.voided)
+      throw new ConvexError({
+        message: "That round has already been voided.",
+        code: 400,
+      });
+    const existing = await ctx.db
+      .query("disputes")
+      .withIndex("by_roundId_and_playerId", (q) =>
+        q.eq("roundId", roundId).eq("playerId", ctx.playerId)
+      )
+      .first();
+    if (existing)
+      throw new ConvexError({
+        message: "You've already disputed that round.",
+        code: 400,
+      });
+    await ctx.db.insert("disputes", {
+      gameId: round.gameId,
+      run: round.run,
+      roundId,
+      playerId: ctx.playerId,
+      reason,
+      resolution: null,
+      questionReviewed: false,
+    });
+  },
+});
+
+/**
+ * Settles a dispute, and any others open on the same round. Voiding or
+ * flipping rescores the round everywhere it counts: the run's scores, the
+ * archived session if there is one, and players' lifetime profiles.
+ */
+export const resolveDispute = mutation({
+  args: {
+    disputeId: zid("disputes"),
+    resolution: z.enum(["voided", "flipped", "dismissed"]),
+  },
+  handler: async (ctx, { disputeId, resolution }) => {
+    const dispute = await ctx.db.get(disputeId);
+    if (!dispute) throw new ConvexError("Dispute not found.");
+    await getGameAsHost(ctx, dispute.gameId, ctx.playerId);
+    if (dispute.resolution !== null)
+      throw new ConvexError({
+        message: "That dispute has already been resolved.",
+        code: 400,
+      });
+    const round = await ctx.db.get(dispute.roundId);
+    if (!round) throw new ConvexError("Round not found.");
+
+    if (resolution !== "dismissed") {
+      await correctRound(ctx, round, resolution);
+      await reviseResolvedRound(ctx, round, resolution);
+      await refreshSessionScores(ctx, round.gameId, round.run);
+    }
+
+    const openDisputes = await ctx.db
+      .query("disputes")
+      .withIndex("by_roundId_and_resolution", (q) =>
+        q.eq("roundId", round._id).eq("resolution", null)
+      )
+      .collect();
+    for (const open of openDisputes) {
+      await ctx.db.patch(open._id, {
+        resolution,
+        // Nothing about the question needs fixing if the host disagreed.
+        questionReviewed: resolution === "dismissed",
+      });
+    }
+  },
+});
+
+/** Disputes raised on a run's rounds, oldest first. */
+export const listRunDisputes = query({
+  args: { gameId: zid("games"), run: z.number() },
+  handler: async (ctx, { gameId, run }) => {
+    const disputes = await ctx.db
+      .query("disputes")
+      .withIndex("by_gameId_and_run", (q) =>
+        q.eq("gameId", gameId).eq("run", run)
+      )
+      .collect();
+    return await Promise.all(
+      disputes.map(async (dispute) => ({
+        ...dispute,
+        round: (await ctx.db.get(dispute.roundId))!,
+      }))
+    );
+  },
+});
+
+/** Whether the player hosted the disputed game or may edit the question. */
+async function canReviewDispute(
+  ctx: QueryCtx,
+  playerId: PlayerId,
+  dispute: Doc<"disputes">
+): Promise<boolean> {
+  const game = await ctx.db.get(dispute.gameId);
+  if (game?.hostPlayerId === playerId) return true;
+  const round = await ctx.db.get(dispute.roundId);
+  const question = round && (await ctx.db.get(round.questionId));
+  return !!question && (await canEditQuestion(ctx, playerId, question));
+}
+
+/**
+ * Upheld disputes whose question hasn't been looked at since, so the bank's
+ * answers can be fixed for future games. Only those the caller may clear are
+ * listed, with the question only if they may also edit it.
+ */
+export const listDisputesForReview = query({
+  args: {},
+  handler: async (ctx) => {
+    const playerId = await getPlayerId(ctx);
+    if (!playerId) return [];
+    const disputes = await ctx.db
+      .query("disputes")
+      // null sorts before every resolution, so this skips the open ones.
+      .withIndex("by_questionReviewed_and_resolution", (q) =>
+        q.eq("questionReviewed", false).gt("resolution", null)
+      )
+      .collect();
+    const canReview = await Promise.all(
+      disputes.map((dispute) => canReviewDispute(ctx, playerId, dispute))
+    );
+    const reviewable = disputes.filter((_, i) => canReview[i]);
+    return await Promise.all(
+      reviewable.map(async (dispute) => {
+        const round = (await ctx.db.get(dispute.roundId))!;
+        const question = await ctx.db.get(round.questionId);
+        return {
+          ...dispute,
+          round,
+          question:
+            question && (await canEditQuestion(ctx, playerId, question))
+              ? question
+              : null,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Clears a dispute from the review list. Either the game's host or someone
+ * who may edit the question can do it.
+ */
+export const markDisputeReviewed = mutation({
+  args: { disputeId: zid("disputes") },
+  handler: async (ctx, { disputeId }) => {
+    const dispute = await ctx.db.get(disputeId);
+    if (!dispute) throw new ConvexError("Dispute not found.");
+    if (!(await canReviewDispute(ctx, ctx.playerId, dispute)))
+      throw new ConvexError({
+        message: "Only the host or the question's owner can do that.",
+        code: 403,
+      });
+    await ctx.db.patch(disputeId, { questionReviewed: true });
+  },
+});
@@ -5,122 +5,386 @@ import {
   mutation as baseMutation,
   query as baseQuery,
   internalMutation,
+  MutationCtx,
+  QueryCtx,
 } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
-import { Doc } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { getQuestionPool, seededQuestionOrder } from "./questions";
+import { recordGameFinished, recordResolvedRound } from "./profiles";
+import { archiveSession } from "./sessions";
+import { getOnlinePlayerIds, touchPresence } from "./presence";
+import { getRunRounds, insertFinishedRound } from "./rounds";
 import {
-  fullQuestions,
+  defaultGuess,
   gameNumRoundsSchema,
+  gameTagFilterSchema,
   gamePlayerGuessSchema,
+  gameQuestionSeedSchema,
+  gameRevealSecondsSchema,
   GameQuickId,
   gameQuickIdSchema,
   gameSecondsPerQuestionSchema,
-  playerIdSchema,
+  gameSpeedBonusSchema,
+  Guess,
+  nonAnswerPolicySchema,
+  PlayerId,
+  questionGuessSchema,
+  redactQuestion,
+  scoringRuleSchema,
+  teamAggregationSchema,
   zodErrorToString,
 } from "./validation";
 import { zCustomQuery, zCustomMutation, zid } from "convex-helpers/server/zod";
-import { NoOp } from "convex-helpers/server/customFunctions";
+import { customCtx, NoOp } from "convex-helpers/server/customFunctions";
 import { z } from "zod";
+import { getPlayerId, requirePlayerId } from "./auth";
 
-const mutation = zCustomMutation(baseMutation, NoOp);
+/** Mutations act on behalf of the signed-in player, as `ctx.playerId`. */
+const mutation = zCustomMutation(
+  baseMutation,
+  customCtx(async (ctx) => ({ playerId: await requirePlayerId(ctx) }))
+);
 const query = zCustomQuery(baseQuery, NoOp);
 
 const DEFAULT_N_ROUNDS = 100;
 const DEFAULT_SECONDS_PER_QUESTION = 6;
+const DEFAULT_SCORING_RULE = "log";
+const DEFAULT_REVEAL_SECONDS = 5;
 const INTER_ROUND_DELAY = 300;
+/** How long after a round's deadline a guess in flight is still accepted. */
+const LATE_GUESS_TOLERANCE_MS = 250;
+
+/** Loads the game, throwing unless `playerId` is its host. */
+export async function getGameAsHost(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  playerId: PlayerId
+): Promise<Doc<"games">> {
+  const game = await ctx.db.get(gameId);
+  if (!game) throw new ConvexError("Game not found.");
+  if (game.hostPlayerId !== playerId)
+    throw new ConvexError({
+      message: "Only the host can do that.",
+      code: 403,
+    });
+  return game;
+}
+
+async function getLiveGuesses(
+  ctx: QueryCtx,
+  roundId: Id<"currentRounds">
+): Promise<Doc<"liveGuesses">[]> {
+  return await ctx.db
+    .query("liveGuesses")
+    .withIndex("by_roundId_and_playerId", (q) => q.eq("roundId", roundId))
+    .collect();
+}
+
+/** Deletes the round along with its live guesses. */
+async function deleteCurrentRound(
+  ctx: MutationCtx,
+  round: Doc<"currentRounds">
+) {
+  const liveGuesses = await getLiveGuesses(ctx, round._id);
+  await Promise.all([
+    ...liveGuesses.map(({ _id }) => ctx.db.delete(_id)),
+    ctx.db.delete(round._id),
+  ]);
+}
+
+/**
+ * Throws if the game is one player's run of a tournament, which has to play
+ * out the same way as everyone else's.
+ */
+function assertNotTournamentRun(game: Doc<"games">) {
+  if (game.tournamentId !== null)
+    throw new ConvexError({
+      message: "That can't be done in a tournament run.",
+      code: 400,
+    });
+}
+
+/**
+ * A random 4-letter id used by no game or tournament, so a code typed into
+ * the lobby can only mean one thing.
+ */
+export async function generateQuickId(ctx: QueryCtx): Promise<GameQuickId> {
+  let quickId: GameQuickId;
+  do {
+    quickId = gameQuickIdSchema.parse(
+      Array.from({ length: 4 }, () =>
+        String.fromCharCode(Math.floor(Math.random() * 26) + "A".charCodeAt(0))
+      ).join("")
+    );
+  } while (await isQuickIdTaken(ctx, quickId));
+  return quickId;
+}
+
+async function isQuickIdTaken(
+  ctx: QueryCtx,
+  quickId: GameQuickId
+): Promise<boolean> {
+  const [game, tournament] = await Promise.all([
+    ctx.db
+      .query("games")
+      .withIndex("by_quickId", (q) => q.eq("quickId", quickId))
+      .unique(),
+    ctx.db
+      .query("tournaments")
+      .withIndex("by_quickId", (q) => q.eq("quickId", quickId))
+      .unique(),
+  ]);
+  return game !== null || tournament !== null;
+}
+
+/** Picks a new host if the current one is no longer in the game. */
+function hostAfterLeaving(
+  hostPlayerId: PlayerId,
+  players: Doc<"games">["players"]
+): PlayerId {
+  if (players[hostPlayerId]) return hostPlayerId;
+  return (Object.keys(players) as PlayerId[])[0] ?? hostPlayerId;
+}
 
 export const createGame = mutation({
-  args: {
-    playerId: playerIdSchema,
-  },
-  handler: async (ctx, { playerId }) => {
-    let quickId: GameQuickId;
-    let quickIdTaken: boolean;
-    do {
-      quickId = gameQuickIdSchema.parse(
-        Array.from({ length: 4 }, () =>
-          String.fromCharCode(
-            Math.floor(Math.random() * 26) + "A".charCodeAt(0)
-          )
-        ).join("")
-      );
-      quickIdTaken = !!(await ctx.db
-        .query("games")
-        .withIndex("by_quickId", (q) => q.eq("quickId", quickId))
-        .unique());
-    } while (quickIdTaken);
+  args: {},
+  handler: async (ctx) => {
+    const { playerId } = ctx;
+    const quickId = await generateQuickId(ctx);
+    const tagFilter = { includeTags: [], excludeTags: [] };
+    const numQuestions = (await getQuestionPool(ctx, tagFilter)).length;
     const gameId = await ctx.db.insert("games", {
       quickId,
       started: false,
-      roundsRemaining: Math.min(DEFAULT_N_ROUNDS, fullQuestions.size),
+      roundsRemaining: Math.min(DEFAULT_N_ROUNDS, numQuestions),
       secondsPerQuestion: DEFAULT_SECONDS_PER_QUESTION,
-      players: { [playerId]: { name: "" } },
-      finishedRounds: [],
+      ...tagFilter,
+      scoringRule: DEFAULT_SCORING_RULE,
+      revealSeconds: DEFAULT_REVEAL_SECONDS,
+      speedBonus: 0,
+      nonAnswers: "zero",
+      questionSeed: null,
+      teamAggregation: null,
+      reveal: null,
+      paused: false,
+      tickJobId: null,
+      skippedQuestionIds: [],
+      hostPlayerId: playerId,
+      players: { [playerId]: { name: "", team: null, captain: false } },
+      kickedPlayerIds: [],
+      run: 0,
+      tournamentId: null,
     });
+    await touchPresence(ctx, gameId, playerId);
     return { _id: gameId, quickId };
   },
 });
 
+/**
+ * Starts the player's own run of a tournament: a solo game, already under
+ * way, that will ask the tournament's questions in order.
+ */
+export async function startTournamentRun(
+  ctx: MutationCtx,
+  tournament: Doc<"tournaments">,
+  playerId: PlayerId,
+  playerName: string
+): Promise<{ _id: Id<"games">; quickId: GameQuickId }> {
+  const quickId = await generateQuickId(ctx);
+  const gameId = await ctx.db.insert("games", {
+    quickId,
+    started: true,
+    roundsRemaining: tournament.questionIds.length,
+    secondsPerQuestion: tournament.secondsPerQuestion,
+    includeTags: [],
+    excludeTags: [],
+    scoringRule: tournament.scoringRule,
+    revealSeconds: DEFAULT_REVEAL_SECONDS,
+    speedBonus: 0,
+    nonAnswers: "zero",
+    questionSeed: null,
+    teamAggregation: null,
+    reveal: null,
+    paused: false,
+    tickJobId: null,
+    skippedQuestionIds: [],
+    hostPlayerId: playerId,
+    players: { [playerId]: { name: playerName, team: null, captain: false } },
+    kickedPlayerIds: [],
+    run: 0,
+    tournamentId: tournament._id,
+  });
+  await touchPresence(ctx, gameId, playerId);
+  await scheduleTick(ctx, gameId, 0);
+  return { _id: gameId, quickId };
+}
+
 export const joinGame = mutation({
   args: {
     quickId: gameQuickIdSchema,
-    playerId: playerIdSchema,
   },
   handler: async (ctx, args) => {
+    const { playerId } = ctx;
     const quickId = gameQuickIdSchema.parse(args.quickId.toUpperCase());
     const game = await ctx.db
       .query("games")
       .withIndex("by_quickId", (q) => q.eq("quickId", quickId))
       .unique();
     if (!game) throw new ConvexError("Game not found.");
-    if (!game.players[args.playerId]) {
+    if (game.tournamentId !== null && game.hostPlayerId !== playerId)
+      throw new ConvexError({
+        message: "That's someone else's tournament run.",
+        code: 403,
+      });
+    if (game.kickedPlayerIds.includes(playerId))
+      throw new ConvexError({
+        message: "The host has removed you from that game.",
+        code: 403,
+      });
+    if (!game.players[playerId]) {
       await ctx.db.patch(game._id, {
         players: {
           ...game.players,
-          [args.playerId]: { name: "" },
+          [playerId]: { name: "", team: null, captain: false },
         },
+        // Everyone else has left, so the newcomer takes over.
+        ...(Object.keys(game.players).length === 0 && {
+          hostPlayerId: playerId,
+        }),
       });
     }
+    // Rejoining picks up where they left off: their rounds are keyed by
+    // player, so all that changes is that they're back in the next one.
+    await touchPresence(ctx, game._id, playerId);
+    // Anyone arriving mid-round is in it, like everyone else, so that not
+    // answering it counts as a non-answer rather than not being there.
+    const currentRound = await getCurrentRoundDoc(ctx, game._id);
+    if (currentRound) {
+      const liveGuess = await ctx.db
+        .query("liveGuesses")
+        .withIndex("by_roundId_and_playerId", (q) =>
+          q.eq("roundId", currentRound._id).eq("playerId", playerId)
+        )
+        .unique();
+      if (!liveGuess) {
+        await ctx.db.insert("liveGuesses", {
+          roundId: currentRound._id,
+          playerId,
+          guess: defaultGuess(currentRound.question),
+          moved: false,
+        });
+      }
+    }
     return game._id;
   },
 });
 
 export const leaveGame = mutation({
-  args: { gameId: zid("games"), playerId: playerIdSchema },
+  args: { gameId: zid("games") },
   handler: async (ctx, args) => {
     const game = await ctx.db.get(args.gameId);
     if (!game) throw new ConvexError("Game not found.");
-    delete game.players[args.playerId];
+    // A tournament run stays its player's, to come back to.
+    if (game.tournamentId !== null) return game._id;
+    delete game.players[ctx.playerId];
     await ctx.db.patch(game._id, {
       players: game.players,
+      hostPlayerId: hostAfterLeaving(game.hostPlayerId, game.players),
     });
     return game._id;
   },
 });
 
+export const kickPlayer = mutation({
+  args: {
+    gameId: zid("games"),
+    kickedPlayerId: zid("users"),
+  },
+  handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    if (args.kickedPlayerId === ctx.playerId)
+      throw new ConvexError("You can't kick yourself.");
+    if (!game.players[args.kickedPlayerId])
+      throw new ConvexError("Player not found.");
+    delete game.players[args.kickedPlayerId];
+    await ctx.db.patch(game._id, {
+      players: game.players,
+      kickedPlayerIds: [...game.kickedPlayerIds, args.kickedPlayerId],
+    });
+    return true;
+  },
+});
+
+export const transferHost = mutation({
+  args: {
+    gameId: zid("games"),
+    newHostPlayerId: zid("users"),
+  },
+  handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    if (!game.players[args.newHostPlayerId])
+      throw new ConvexError("Player not found.");
+    await ctx.db.patch(game._id, { hostPlayerId: args.newHostPlayerId });
+    return true;
+  },
+});
+
 export const updateGameSettings = mutation({
   args: {
     gameId: zid("games"),
-    roundsRemaining: z.optional(gameNumRoundsSchema),
+    roundsRemaining: z.optional(z.number()),
     secondsPerQuestion: z.optional(gameSecondsPerQuestionSchema),
-    playerName: z.optional(
-      z.object({
-        playerId: playerIdSchema,
-        name: z.string(),
-      })
-    ),
+    includeTags: z.optional(gameTagFilterSchema),
+    excludeTags: z.optional(gameTagFilterSchema),
+    scoringRule: z.optional(scoringRuleSchema),
+    revealSeconds: z.optional(gameRevealSecondsSchema),
+    speedBonus: z.optional(gameSpeedBonusSchema),
+    nonAnswers: z.optional(nonAnswerPolicySchema),
+    /** blank goes back to random order */
+    questionSeed: z.optional(gameQuestionSeedSchema),
+    /** null switches back to individual play */
+    teamAggregation: z.optional(teamAggregationSchema.nullable()),
+    /** the calling player's own display name; anyone may set this */
+    playerName: z.optional(z.string()),
   },
   handler: async (ctx, args) => {
-    const game = await ctx.db.get(args.gameId);
+    const { playerId } = ctx;
+    const { gameId, playerName, ...settings } = args;
+    const game = Object.values(settings).some((value) => value !== undefined)
+      ? await getGameAsHost(ctx, gameId, playerId)
+      : await ctx.db.get(gameId);
     if (!game) throw new ConvexError("Game not found.");
     if (game.started)
       throw new ConvexError("Game started, cannot update settings.");
 
     const updates: Partial<Doc<"games">> = {};
-    if (args.roundsRemaining !== undefined) {
-      const roundsRemaining = gameNumRoundsSchema.safeParse(
-        args.roundsRemaining
+    if (args.includeTags !== undefined || args.excludeTags !== undefined) {
+      const includeTags = _.uniq(args.includeTags ?? game.includeTags);
+      const excludeTags = _.uniq(args.excludeTags ?? game.excludeTags);
+      if (includeTags.some((t) => excludeTags.includes(t)))
+        throw new ConvexError({
+          message: "A tag cannot be both included and excluded.",
+          code: 400,
+        });
+      updates.includeTags = includeTags;
+      updates.excludeTags = excludeTags;
+    }
+    if (
+      args.roundsRemaining !== undefined ||
+      updates.includeTags !== undefined
+    ) {
+      const numQuestions = (
+        await getQuestionPool(ctx, {
+          includeTags: updates.includeTags ?? game.includeTags,
+          excludeTags: updates.excludeTags ?? game.excludeTags,
+        })
+      ).length;
+      // If only the tags changed, shrink the round count to fit the new pool
+      // rather than rejecting the change.
+      const roundsRemaining = gameNumRoundsSchema(numQuestions).safeParse(
+        args.roundsRemaining ?? Math.min(game.roundsRemaining, numQuestions)
       );
       if (roundsRemaining.error)
         throw new ConvexError({
@@ -140,10 +404,29 @@ export const updateGameSettings = mutation({
         });
       updates.secondsPerQuestion = secondsPerQuestion.data;
     }
-    if (args.playerName) {
+    if (args.scoringRule !== undefined) {
+      updates.scoringRule = args.scoringRule;
+    }
+    if (args.revealSeconds !== undefined) {
+      updates.revealSeconds = args.revealSeconds;
+    }
+    if (args.speedBonus !== undefined) {
+      updates.speedBonus = args.speedBonus;
+    }
+    if (args.nonAnswers !== undefined) {
+      updates.nonAnswers = args.nonAnswers;
+    }
+    if (args.questionSeed !== undefined) {
+      updates.questionSeed = args.questionSeed || null;
+    }
+    if (args.teamAggregation !== undefined) {
+      updates.teamAggregation = args.teamAggregation;
+    }
+    if (playerName !== undefined) {
+      if (!game.players[playerId]) throw new ConvexError("Player not found.");
       updates.players = {
         ...game.players,
-        [args.playerName.playerId]: { name: args.playerName.name },
+        [playerId]: { ...game.players[playerId], name: playerName },
       };
     }
     if (Object.keys(updates).length > 0)
@@ -152,6 +435,90 @@ export const updateGameSettings = mutation({
   },
 });
 
+/**
+ * Schedules the game's next `tickGame`, remembering the job so that pausing,
+ * skipping or resetting can cancel it.
+ */
+async function scheduleTick(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  delayMs: number
+) {
+  const tickJobId = await ctx.scheduler.runAfter(
+    delayMs,
+    internal.games.tickGame,
+    { gameId }
+  );
+  await ctx.db.patch(gameId, { tickJobId });
+}
+
+/**
+ * Cancels the game's pending tick, if any. Never call this from `tickGame`
+ * itself: cancelling a running job also cancels whatever it schedules.
+ */
+async function cancelTick(ctx: MutationCtx, game: Doc<"games">) {
+  if (game.tickJobId === null) return;
+  const job = await ctx.db.system.get(game.tickJobId);
+  if (job?.state.kind === "pending") {
+    await ctx.scheduler.cancel(game.tickJobId);
+  }
+  await ctx.db.patch(game._id, { tickJobId: null });
+}
+
+async function getCurrentRoundDoc(
+  ctx: QueryCtx,
+  gameId: Id<"games">
+): Promise<Doc<"currentRounds"> | null> {
+  return await ctx.db
+    .query("currentRounds")
+    .withIndex("by_gameId", (q) => q.eq("gameId", gameId))
+    .unique();
+}
+
+/**
+ * A question the run hasn't asked or skipped: the next in the seeded order,
+ * if the game has a seed, or else any at random.
+ */
+async function pickNextQuestion(
+  ctx: QueryCtx,
+  game: Doc<"games">,
+  askedQuestions: Set<string>
+): Promise<Doc<"questions"> | undefined> {
+  const pool = await getQuestionPool(ctx, game);
+  const unasked = (questions: Doc<"questions">[]) =>
+    questions.filter(
+      (q) =>
+        !askedQuestions.has(q.text) && !game.skippedQuestionIds.includes(q._id)
+    );
+  return game.questionSeed === null
+    ? _.sample(unasked(pool))
+    : unasked(seededQuestionOrder(pool, game.questionSeed))[0];
+}
+
+/**
+ * The first of the tournament's questions that the run hasn't asked or
+ * skipped, passing over any that have since been deleted.
+ */
+async function getTournamentQuestion(
+  ctx: QueryCtx,
+  tournamentId: Id<"tournaments">,
+  game: Doc<"games">,
+  runRounds: Doc<"rounds">[]
+): Promise<Doc<"questions"> | undefined> {
+  const askedIds = new Set(runRounds.map((round) => round.questionId));
+  const questionIds = (await ctx.db.get(tournamentId))?.questionIds ?? [];
+  for (const questionId of questionIds) {
+    if (
+      askedIds.has(questionId) ||
+      game.skippedQuestionIds.includes(questionId)
+    )
+      continue;
+    const question = await ctx.db.get(questionId);
+    if (question) return question;
+  }
+  return undefined;
+}
+
 export const tickGame = internalMutation({
   args: {
     gameId: v.id("games"),
@@ -165,78 +532,150 @@ export const tickGame = internalMutation({
     if (!game.started) {
       throw new ConvexError("Game not started.");
     }
+    if (game.paused) return;
 
-    const currentRound = await ctx.db
-      .query("currentRounds")
-      .withIndex("by_gameId", (q) => q.eq("gameId", gameId))
-      .unique();
+    const currentRound = await getCurrentRoundDoc(ctx, gameId);
     if (currentRound) {
-      const answer = fullQuestions.get(currentRound.question.text)?.answer;
+      const answer = (await ctx.db.get(currentRound.questionId))?.answer;
       if (answer === undefined) {
-        throw new ConvexError("Internal error: Question not found");
+        // The question was deleted mid-round, so there's nothing to score
+        // it against. Drop the round as if it had been skipped. A tournament
+        // run just moves on to its next question: its set is fixed, so there
+        // is no spare to make the round up with.
+        console.error("Question not found for round:", currentRound._id);
+        const isTournamentRun = game.tournamentId !== null;
+        await deleteCurrentRound(ctx, currentRound);
+        await ctx.db.patch(gameId, {
+          roundsRemaining: game.roundsRemaining + (isTournamentRun ? 0 : 1),
+          skippedQuestionIds: [
+            ...game.skippedQuestionIds,
+            currentRound.questionId,
+          ],
+        });
+        if (isTournamentRun && game.roundsRemaining <= 0) {
+          await recordGameFinished(ctx, game);
+          return;
+        }
+        await scheduleTick(ctx, gameId, INTER_ROUND_DELAY);
+        return;
       }
+      const liveGuesses = await getLiveGuesses(ctx, currentRound._id);
+      const finishedRound = {
+        questionId: currentRound.questionId,
+        question: currentRound.question,
+        answer,
+        guesses: Object.fromEntries(
+          liveGuesses.map(({ playerId, guess }) => [playerId, guess])
+        ),
+        answered: new Set([
+          ...liveGuesses
+            .filter(({ moved }) => moved)
+            .map(({ playerId }) => playerId),
+          ...currentRound.lockedIn.map(({ playerId }) => playerId),
+        ]),
+        lockedTimeLeft: Object.fromEntries(
+          currentRound.lockedIn.map(({ playerId, msLeft }) => [
+            playerId,
+            msLeft / (game.secondsPerQuestion * 1000),
+          ])
+        ),
+      };
+      const numFinishedRounds = (await getRunRounds(ctx, gameId, game.run))
+        .length;
+      const finishedRoundId = await insertFinishedRound(
+        ctx,
+        game,
+        numFinishedRounds,
+        finishedRound
+      );
       await Promise.all([
-        ctx.db.patch(gameId, {
-          finishedRounds: [
-            ...game.finishedRounds,
-            {
-              question: currentRound.question,
-              answer,
-              guesses: currentRound.guesses,
-            },
-          ],
-        }),
-        ctx.db.delete(currentRound._id),
+        deleteCurrentRound(ctx, currentRound),
+        recordResolvedRound(ctx, game, finishedRoundId, finishedRound),
       ]);
-      await ctx.scheduler.runAfter(INTER_ROUND_DELAY, internal.games.tickGame, {
-        gameId,
+      if (game.revealSeconds === 0) {
+        if (game.roundsRemaining <= 0) {
+          await recordGameFinished(ctx, game);
+        } else {
+          await scheduleTick(ctx, gameId, INTER_ROUND_DELAY);
+        }
+        return;
+      }
+      // The last round's results get their reveal too, and the game ends
+      // when it does.
+      await ctx.db.patch(gameId, {
+        reveal: {
+          roundId: finishedRoundId,
+          endsAtMs:
+            game.revealSeconds === null
+              ? null
+              : Date.now() + game.revealSeconds * 1000,
+        },
       });
+      if (game.revealSeconds !== null) {
+        await scheduleTick(ctx, gameId, game.revealSeconds * 1000);
+      }
       return;
     }
 
-    if (game.roundsRemaining <= 0) return;
+    if (game.roundsRemaining <= 0) {
+      if (game.reveal) {
+        await ctx.db.patch(gameId, { reveal: null });
+        await recordGameFinished(ctx, game);
+      }
+      return;
+    }
 
+    const runRounds = await getRunRounds(ctx, gameId, game.run);
     const askedQuestions = new Set(
-      game.finishedRounds.map((round) => round.question.text)
+      runRounds.map((round) => round.question.text)
     );
-    const allQuestionTexts = Array.from(fullQuestions.keys());
-    const nextQuestionText = _.sample(
-      allQuestionTexts.filter((q) => !askedQuestions.has(q))
-    )!;
-    const nextQuestion = fullQuestions.get(nextQuestionText);
+    const nextQuestion =
+      game.tournamentId === null
+        ? await pickNextQuestion(ctx, game, askedQuestions)
+        : await getTournamentQuestion(ctx, game.tournamentId, game, runRounds);
     if (nextQuestion === undefined) {
-      throw new ConvexError("Internal error: Question not found");
+      // Questions were deleted out from under us; end the game early.
+      await ctx.db.patch(gameId, { roundsRemaining: 0, reveal: null });
+      await recordGameFinished(ctx, game);
+      return;
     }
 
+    const roundId = await ctx.db.insert("currentRounds", {
+      gameId,
+      questionId: nextQuestion._id,
+      question: redactQuestion(nextQuestion),
+      endsAtMs: Date.now() + game.secondsPerQuestion * 1000,
+      pausedWithMsLeft: null,
+      lockedIn: [],
+    });
+    const startingGuess = defaultGuess(redactQuestion(nextQuestion));
+    // Players who have wandered off sit the round out, rather than being
+    // scored on a guess they never made. They can still jump in if they
+    // come back before it ends.
+    const onlinePlayerIds = await getOnlinePlayerIds(ctx, game);
     await Promise.all([
-      ctx.db.insert("currentRounds", {
-        gameId,
-        question: {
-          text: nextQuestionText,
-          left: nextQuestion.left,
-          right: nextQuestion.right,
-        },
-        guesses: Object.fromEntries(
-          Object.keys(game.players).map((playerId) => [playerId, 0.5])
-        ),
-        endsAtMs: Date.now() + game.secondsPerQuestion * 1000,
+      ...onlinePlayerIds.map((playerId) =>
+        ctx.db.insert("liveGuesses", {
+          roundId,
+          playerId,
+          guess: startingGuess,
+          moved: false,
+        })
+      ),
+      ctx.db.patch(gameId, {
+        roundsRemaining: game.roundsRemaining - 1,
+        reveal: null,
       }),
-      ctx.db.patch(gameId, { roundsRemaining: game.roundsRemaining - 1 }),
     ]);
 
-    await ctx.scheduler.runAfter(
-      game.secondsPerQuestion * 1000,
-      internal.games.tickGame,
-      { gameId }
-    );
+    await scheduleTick(ctx, gameId, game.secondsPerQuestion * 1000);
   },
 });
 
 export const startGame = mutation({
   args: { gameId: zid("games") },
   handler: async (ctx, args) => {
-    const game = await ctx.db.get(args.gameId);
-    if (!game) throw new ConvexError("Game not found.");
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
 
     if (game.started) throw new ConvexError("Game already started.");
     if (game.roundsRemaining <= 0)
@@ -245,9 +684,7 @@ export const startGame = mutation({
     await ctx.db.patch(args.gameId, { started: true });
 
     // Call the action to fetch question and then setup round
-    await ctx.scheduler.runAfter(0, internal.games.tickGame, {
-      gameId: args.gameId,
-    });
+    await scheduleTick(ctx, args.gameId, 0);
     // Note: Game is marked as 'started' inside _setupRoundWithQuestion to ensure it happens after a question is confirmed.
     // However, for immediate UI feedback, we could patch here, but it's safer to do it atomically with round creation.
     // For now, we'll patch it to true in _setupRoundWithQuestion.
@@ -255,6 +692,97 @@ export const startGame = mutation({
   },
 });
 
+/** Ends the reveal of the last round's results early, or when it waits. */
+export const nextRound = mutation({
+  args: { gameId: zid("games") },
+  handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    if (!game.reveal) throw new ConvexError("No round is being revealed.");
+    if (game.paused) throw new ConvexError("The game is paused.");
+    await cancelTick(ctx, game);
+    await scheduleTick(ctx, args.gameId, 0);
+  },
+});
+
+/**
+ * Stops the clock: the pending tick is cancelled and the current question,
+ * if any, keeps however much time it had left.
+ */
+export const pauseGame = mutation({
+  args: { gameId: zid("games") },
+  handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    assertNotTournamentRun(game);
+    if (!game.started) throw new ConvexError("Game not started.");
+    if (game.paused) throw new ConvexError("The game is already paused.");
+    await cancelTick(ctx, game);
+    const currentRound = await getCurrentRoundDoc(ctx, args.gameId);
+    if (currentRound) {
+      await ctx.db.patch(currentRound._id, {
+        pausedWithMsLeft: Math.max(0, currentRound.endsAtMs - Date.now()),
+      });
+    }
+    await ctx.db.patch(args.gameId, {
+      paused: true,
+      // A timed reveal starts over on resume.
+      reveal: game.reveal && { ...game.reveal, endsAtMs: null },
+    });
+  },
+});
+
+export const resumeGame = mutation({
+  args: { gameId: zid("games") },
+  handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    if (!game.paused) throw new ConvexError("The game is not paused.");
+    await ctx.db.patch(args.gameId, { paused: false });
+
+    const currentRound = await getCurrentRoundDoc(ctx, args.gameId);
+    if (currentRound) {
+      const msLeft = currentRound.pausedWithMsLeft ?? 0;
+      await ctx.db.patch(currentRound._id, {
+        endsAtMs: Date.now() + msLeft,
+        pausedWithMsLeft: null,
+      });
+      await scheduleTick(ctx, args.gameId, msLeft);
+    } else if (game.reveal) {
+      if (game.revealSeconds === null) return;
+      await ctx.db.patch(args.gameId, {
+        reveal: {
+          ...game.reveal,
+          endsAtMs: Date.now() + game.revealSeconds * 1000,
+        },
+      });
+      await scheduleTick(ctx, args.gameId, game.revealSeconds * 1000);
+    } else {
+      await scheduleTick(ctx, args.gameId, INTER_ROUND_DELAY);
+    }
+  },
+});
+
+/**
+ * Throws out the current question without scoring it, and asks another in
+ * its place. The skipped question won't come up again this run.
+ */
+export const skipQuestion = mutation({
+  args: { gameId: zid("games") },
+  handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    assertNotTournamentRun(game);
+    const currentRound = await getCurrentRoundDoc(ctx, args.gameId);
+    if (!currentRound) throw new ConvexError("No question is being asked.");
+    await cancelTick(ctx, game);
+    await deleteCurrentRound(ctx, currentRound);
+    await ctx.db.patch(args.gameId, {
+      roundsRemaining: game.roundsRemaining + 1,
+      skippedQuestionIds: [...game.skippedQuestionIds, currentRound.questionId],
+    });
+    if (!game.paused) {
+      await scheduleTick(ctx, args.gameId, INTER_ROUND_DELAY);
+    }
+  },
+});
+
 export const getGame = query({
   args: { gameId: zid("games") },
   handler: async (ctx, args): Promise<null | Doc<"games">> => {
@@ -262,72 +790,217 @@ export const getGame = query({
   },
 });
 
+/** Looks a game up by its join code, for the spectator screen. */
+export const getGameByQuickId = query({
+  args: { quickId: gameQuickIdSchema },
+  handler: async (ctx, { quickId }): Promise<null | Doc<"games">> => {
+    return await ctx.db
+      .query("games")
+      .withIndex("by_quickId", (q) => q.eq("quickId", quickId))
+      .unique();
+  },
+});
+
+/**
+ * Every question a game with this seed and tag filter would ask, in order,
+ * for replaying a seeded game or comparing runs after the fact. Null if the
+ * game has no seed.
+ */
+export const getSeededQuestionOrder = query({
+  args: { gameId: zid("games") },
+  handler: async (ctx, { gameId }) => {
+    const game = await ctx.db.get(gameId);
+    if (!game) throw new ConvexError("Game not found.");
+    if (game.questionSeed === null) return null;
+    return seededQuestionOrder(
+      await getQuestionPool(ctx, game),
+      game.questionSeed
+    ).map((question) => ({ _id: question._id, text: question.text }));
+  },
+});
+
+/**
+ * The round in progress, with only the caller's own guess: everyone else's
+ * stays hidden until the round is finished. Spectators who aren't signed in
+ * get no guess at all.
+ */
 export const getCurrentRound = query({
   args: { gameId: zid("games") },
   handler: async (ctx, args) => {
-    if (!args.gameId) return null;
-    const round = await ctx.db
-      .query("currentRounds")
-      .withIndex("by_gameId", (q) => q.eq("gameId", args.gameId))
-      .unique();
-    return round && { ...round, serverMsFetchedAt: +Date.now() };
+    const playerId = await getPlayerId(ctx);
+    const round = await getCurrentRoundDoc(ctx, args.gameId);
+    if (!round) return null;
+    const liveGuesses = await getLiveGuesses(ctx, round._id);
+    return {
+      _id: round._id,
+      gameId: round.gameId,
+      question: round.question,
+      endsAtMs: round.endsAtMs,
+      pausedWithMsLeft: round.pausedWithMsLeft,
+      myGuess:
+        (playerId && liveGuesses.find((g) => g.playerId === playerId)?.guess) ??
+        null,
+      myLockedIn: round.lockedIn.some((lock) => lock.playerId === playerId),
+      numGuessers: liveGuesses.length,
+      numMoved: liveGuesses.filter(({ moved }) => moved).length,
+      numLockedIn: round.lockedIn.length,
+    };
   },
 });
 
+/**
+ * The round a player's guess is for, throwing unless they may still change
+ * their guess on it.
+ */
+async function getRoundOpenToGuess(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  playerId: PlayerId,
+  questionText: string
+): Promise<{ game: Doc<"games">; currentRound: Doc<"currentRounds"> }> {
+  const game = await ctx.db.get(gameId);
+  if (!game) throw new ConvexError("Game not found");
+  if (!game.players[playerId])
+    throw new ConvexError({
+      message: "You are not in this game.",
+      code: 403,
+    });
+
+  if (game.paused) throw new ConvexError("The game is paused.");
+  const currentRound = await getCurrentRoundDoc(ctx, gameId);
+
+  if (
+    !currentRound ||
+    currentRound.question.text !== questionText ||
+    Date.now() > currentRound.endsAtMs + LATE_GUESS_TOLERANCE_MS
+  ) {
+    throw new ConvexError({
+      message: "Too late! That round is over.",
+      code: 400,
+    });
+  }
+  if (currentRound.lockedIn.some((lock) => lock.playerId === playerId))
+    throw new ConvexError({
+      message: "You've already locked in your guess.",
+      code: 400,
+    });
+  return { game, currentRound };
+}
+
+/** Saves the player's guess on the round, checking it fits the question. */
+async function saveLiveGuess(
+  ctx: MutationCtx,
+  currentRound: Doc<"currentRounds">,
+  playerId: PlayerId,
+  rawGuess: Guess
+) {
+  const guess = questionGuessSchema(currentRound.question).safeParse(rawGuess);
+  if (guess.error)
+    throw new ConvexError({
+      message: zodErrorToString(guess.error),
+      code: 400,
+    });
+
+  const liveGuess = await ctx.db
+    .query("liveGuesses")
+    .withIndex("by_roundId_and_playerId", (q) =>
+      q.eq("roundId", currentRound._id).eq("playerId", playerId)
+    )
+    .unique();
+  if (liveGuess) {
+    await ctx.db.patch(liveGuess._id, {
+      guess: guess.data,
+      moved: liveGuess.moved || !_.isEqual(guess.data, liveGuess.guess),
+    });
+  } else {
+    // They sat the round out as idle, and have come back. Sending the
+    // starting guess back unchanged still isn't an answer.
+    await ctx.db.insert("liveGuesses", {
+      roundId: currentRound._id,
+      playerId,
+      guess: guess.data,
+      moved: !_.isEqual(guess.data, defaultGuess(currentRound.question)),
+    });
+  }
+}
+
 export const setPlayerGuess = mutation({
   args: {
     gameId: zid("games"),
-    playerId: playerIdSchema,
     questionText: z.string(),
     guess: gamePlayerGuessSchema,
   },
   handler: async (ctx, args) => {
-    const currentRound = await ctx.db
-      .query("currentRounds")
-      .withIndex("by_gameId", (q) => q.eq("gameId", args.gameId))
-      .unique();
-
-    if (!currentRound) {
-      // The user may have been racing against the end-of-round ticker. In that case, let's be nice and update the last finished round.
-      const game = await ctx.db.get(args.gameId);
-      if (!game) throw new ConvexError("Game not found");
-      const lastFinishedRound =
-        game.finishedRounds[game.finishedRounds.length - 1];
-      if (lastFinishedRound.question.text !== args.questionText) {
-        throw new ConvexError("Internal error: Question text mismatch");
-      }
-      game.finishedRounds[game.finishedRounds.length - 1].guesses[
-        args.playerId
-      ] = args.guess;
-      await ctx.db.patch(game._id, {
-        finishedRounds: game.finishedRounds,
-      });
-      return;
-    }
-
-    if (currentRound.question.text !== args.questionText) {
-      throw new ConvexError("Internal error: Question text mismatch");
-    }
+    const { currentRound } = await getRoundOpenToGuess(
+      ctx,
+      args.gameId,
+      ctx.playerId,
+      args.questionText
+    );
+    await saveLiveGuess(ctx, currentRound, ctx.playerId, args.guess);
+  },
+});
 
-    // Update the guesses map with the new guess
-    const updatedGuesses = {
-      ...currentRound.guesses,
-      [args.playerId]: args.guess,
-    };
+/**
+ * Makes the player's guess final. Once every player still around has locked
+ * in, the round ends straight away rather than waiting out the clock.
+ */
+export const lockInGuess = mutation({
+  args: {
+    gameId: zid("games"),
+    questionText: z.string(),
+    guess: gamePlayerGuessSchema,
+  },
+  handler: async (ctx, args) => {
+    const { playerId } = ctx;
+    const { game, currentRound } = await getRoundOpenToGuess(
+      ctx,
+      args.gameId,
+      playerId,
+      args.questionText
+    );
+    await saveLiveGuess(ctx, currentRound, playerId, args.guess);
 
+    const lockedIn = [
+      ...currentRound.lockedIn,
+      {
+        playerId,
+        msLeft: Math.max(0, currentRound.endsAtMs - Date.now()),
+      },
+    ];
+    const everyoneLockedIn = (await getOnlinePlayerIds(ctx, game)).every((id) =>
+      lockedIn.some((lock) => lock.playerId === id)
+    );
     await ctx.db.patch(currentRound._id, {
-      guesses: updatedGuesses,
+      lockedIn,
+      ...(everyoneLockedIn && { endsAtMs: Date.now() }),
     });
+    if (everyoneLockedIn) {
+      await cancelTick(ctx, game);
+      await scheduleTick(ctx, args.gameId, 0);
+    }
   },
 });
 
 export const resetGame = mutation({
   args: { gameId: zid("games") },
   handler: async (ctx, args) => {
+    const game = await getGameAsHost(ctx, args.gameId, ctx.playerId);
+    assertNotTournamentRun(game);
+    const numQuestions = (await getQuestionPool(ctx, game)).length;
+    const currentRound = await getCurrentRoundDoc(ctx, args.gameId);
+    if (currentRound) {
+      await deleteCurrentRound(ctx, currentRound);
+    }
+    await cancelTick(ctx, game);
+    await archiveSession(ctx, game);
     await ctx.db.patch(args.gameId, {
       started: false,
-      roundsRemaining: Math.min(DEFAULT_N_ROUNDS, fullQuestions.size),
-      finishedRounds: [],
+      paused: false,
+      roundsRemaining: Math.min(DEFAULT_N_ROUNDS, numQuestions),
+      run: game.run + 1,
+      reveal: null,
+      skippedQuestionIds: [],
     });
   },
 });
@@ -0,0 +1,82 @@
+"use strict";
+
+import { internalMutation } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { PlayerId } from "./validation";
+
+/**
+ * Values for the `games` fields added since the first release, chosen so
+ * that an older game plays on as it did before.
+ */
+const GAME_FIELD_DEFAULTS = {
+  includeTags: [],
+  excludeTags: [],
+  scoringRule: "log",
+  teamAggregation: null,
+  revealSeconds: 0,
+  speedBonus: 0,
+  nonAnswers: "zero",
+  questionSeed: null,
+  reveal: null,
+  paused: false,
+  tickJobId: null,
+  skippedQuestionIds: [],
+  kickedPlayerIds: [],
+  run: 0,
+  tournamentId: null,
+} satisfies Partial<Doc<"games">>;
+
+/** How a game from any earlier version may be stored. */
+type StoredGame = Doc<"games"> & { finishedRounds?: unknown };
+
+/**
+ * Brings every stored game up to the current schema. Games from before
+ * players had accounts are deleted, since their players can't be matched to
+ * anyone; later ones get defaults for whatever fields they're missing. A
+ * round left in progress in the old shape is dropped. See the README for
+ * when and how to run it.
+ */
+export const upgradeGames = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let upgraded = 0;
+    let deleted = 0;
+    for (const currentRound of await ctx.db.query("currentRounds").collect()) {
+      const stored: Partial<Doc<"currentRounds">> = currentRound;
+      if (stored.questionId === undefined || stored.lockedIn === undefined) {
+        await ctx.db.delete(currentRound._id);
+      }
+    }
+    for (const game of await ctx.db.query("games").collect()) {
+      const {
+        _id,
+        _creationTime,
+        finishedRounds: _finishedRounds,
+        ...fields
+      }: StoredGame = game;
+      const stored: Partial<Doc<"games">> = fields;
+      if (stored.hostPlayerId === undefined) {
+        const currentRound = await ctx.db
+          .query("currentRounds")
+          .withIndex("by_gameId", (q) => q.eq("gameId", _id))
+          .unique();
+        if (currentRound) await ctx.db.delete(currentRound._id);
+        await ctx.db.delete(_id);
+        deleted++;
+        continue;
+      }
+      const players: Doc<"games">["players"] = {};
+      for (const [playerId, player] of Object.entries(fields.players)) {
+        const { name, team, captain }: Partial<typeof player> = player;
+        players[playerId as PlayerId] = {
+          name: name ?? "",
+          team: team ?? null,
+          captain: captain ?? false,
+        };
+      }
+      await ctx.db.replace(_id, { ...GAME_FIELD_DEFAULTS, ...fields, players });
+      upgraded++;
+    }
+    return { upgraded, deleted };
+  },
+});
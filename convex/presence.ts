@@ -0,0 +1,103 @@
+"use strict";
+
+import {
+  mutation as baseMutation,
+  query as baseQuery,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { isOnline, PlayerId } from "./validation";
+import { zCustomMutation, zCustomQuery, zid } from "convex-helpers/server/zod";
+import { customCtx, NoOp } from "convex-helpers/server/customFunctions";
+import { requirePlayerId } from "./auth";
+
+/** Mutations act on behalf of the signed-in player, as `ctx.playerId`. */
+const mutation = zCustomMutation(
+  baseMutation,
+  customCtx(async (ctx) => ({ playerId: await requirePlayerId(ctx) }))
+);
+const query = zCustomQuery(baseQuery, NoOp);
+
+async function getGamePresence(
+  ctx: QueryCtx,
+  gameId: Id<"games">
+): Promise<Doc<"presence">[]> {
+  return await ctx.db
+    .query("presence")
+    .withIndex("by_gameId_and_playerId", (q) => q.eq("gameId", gameId))
+    .collect();
+}
+
+/** Marks the player as seen in the game just now. */
+export async function touchPresence(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  playerId: PlayerId
+) {
+  const existing = await ctx.db
+    .query("presence")
+    .withIndex("by_gameId_and_playerId", (q) =>
+      q.eq("gameId", gameId).eq("playerId", playerId)
+    )
+    .unique();
+  if (existing) {
+    await ctx.db.patch(existing._id, { lastSeenMs: Date.now() });
+  } else {
+    await ctx.db.insert("presence", {
+      gameId,
+      playerId,
+      lastSeenMs: Date.now(),
+    });
+  }
+}
+
+/** The game's players who have checked in recently. */
+export async function getOnlinePlayerIds(
+  ctx: QueryCtx,
+  game: Doc<"games">
+): Promise<PlayerId[]> {
+  const lastSeen = new Map(
+    (await getGamePresence(ctx, game._id)).map(({ playerId, lastSeenMs }) => [
+      playerId,
+      lastSeenMs,
+    ])
+  );
+  const now = Date.now();
+  return (Object.keys(game.players) as PlayerId[]).filter((playerId) =>
+    isOnline(lastSeen.get(playerId), now)
+  );
+}
+
+/** Sent every `HEARTBEAT_INTERVAL_MS` by each open game tab. */
+export const heartbeat = mutation({
+  args: { gameId: zid("games") },
+  handler: async (ctx, { gameId }) => {
+    const game = await ctx.db.get(gameId);
+    if (!game) throw new ConvexError("Game not found.");
+    if (!game.players[ctx.playerId])
+      throw new ConvexError({
+        message: "You are not in this game.",
+        code: 403,
+      });
+    await touchPresence(ctx, gameId, ctx.playerId);
+  },
+});
+
+/**
+ * When each of the game's players was last seen. Clients compare against
+ * their own clock with `isOnline`, since a query's result doesn't change
+ * just because time passes.
+ */
+export const getLastSeen = query({
+  args: { gameId: zid("games") },
+  handler: async (ctx, { gameId }): Promise<Record<PlayerId, number>> => {
+    return Object.fromEntries(
+      (await getGamePresence(ctx, gameId)).map(({ playerId, lastSeenMs }) => [
+        playerId,
+        lastSeenMs,
+      ])
+    );
+  },
+});
@@ -0,0 +1,205 @@
+"use strict";
+
+import { query as baseQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  DailyDate,
+  Guess,
+  LIFETIME_SCORING_RULE,
+  PlayerId,
+  previousDailyDate,
+  scoreGuess,
+} from "./validation";
+import { getRunGuessers, ResolvedRound } from "./rounds";
+import { zCustomQuery, zid } from "convex-helpers/server/zod";
+import { NoOp } from "convex-helpers/server/customFunctions";
+
+const query = zCustomQuery(baseQuery, NoOp);
+
+async function getProfileDoc(
+  ctx: QueryCtx,
+  playerId: PlayerId
+): Promise<Doc<"playerProfiles"> | null> {
+  return await ctx.db
+    .query("playerProfiles")
+    .withIndex("by_playerId", (q) => q.eq("playerId", playerId))
+    .unique();
+}
+
+async function getOrCreateProfileDoc(
+  ctx: MutationCtx,
+  playerId: PlayerId,
+  name: string
+): Promise<Doc<"playerProfiles">> {
+  const existing = await getProfileDoc(ctx, playerId);
+  if (existing) return existing;
+  const profileId = await ctx.db.insert("playerProfiles", {
+    playerId,
+    name,
+    gamesPlayed: 0,
+    numGuesses: 0,
+    totalScore: 0,
+    dailyStreak: 0,
+    longestDailyStreak: 0,
+    lastDailyDate: null,
+  });
+  return (await ctx.db.get(profileId))!;
+}
+
+/**
+ * Adds a just-finished round's guesses to each guesser's lifetime record.
+ * Non-answers are left out, so they don't drag down anyone's calibration.
+ */
+export async function recordResolvedRound(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  roundId: Id<"rounds">,
+  round: ResolvedRound
+) {
+  for (const [playerId, guess] of Object.entries(round.guesses) as [
+    PlayerId,
+    Guess,
+  ][]) {
+    if (!round.answered.has(playerId)) continue;
+    const name = game.players[playerId]?.name ?? "";
+    const profile = await getOrCreateProfileDoc(ctx, playerId, name);
+    await Promise.all([
+      ctx.db.insert("resolvedGuesses", {
+        playerId,
+        gameId: game._id,
+        roundId,
+        question: round.question,
+        answer: round.answer,
+        guess,
+      }),
+      ctx.db.patch(profile._id, {
+        name: name || profile.name,
+        numGuesses: profile.numGuesses + 1,
+        totalScore:
+          profile.totalScore +
+          scoreGuess(
+            round.question,
+            guess,
+            round.answer,
+            LIFETIME_SCORING_RULE
+          ),
+      }),
+    ]);
+  }
+}
+
+/**
+ * Brings lifetime records in line with a round corrected after a dispute:
+ * a voided round is forgotten, a flipped one rescored.
+ */
+export async function reviseResolvedRound(
+  ctx: MutationCtx,
+  round: Doc<"rounds">,
+  correction: "voided" | "flipped"
+) {
+  const resolvedGuesses = await ctx.db
+    .query("resolvedGuesses")
+    .withIndex("by_roundId", (q) => q.eq("roundId", round._id))
+    .collect();
+  for (const resolved of resolvedGuesses) {
+    const profile = await getProfileDoc(ctx, resolved.playerId);
+    const oldScore = scoreGuess(
+      resolved.question,
+      resolved.guess,
+      resolved.answer,
+      LIFETIME_SCORING_RULE
+    );
+    if (correction === "voided") {
+      await ctx.db.delete(resolved._id);
+      if (profile) {
+        await ctx.db.patch(profile._id, {
+          numGuesses: profile.numGuesses - 1,
+          totalScore: profile.totalScore - oldScore,
+        });
+      }
+    } else {
+      const answer = !resolved.answer;
+      await ctx.db.patch(resolved._id, { answer });
+      if (profile) {
+        await ctx.db.patch(profile._id, {
+          totalScore:
+            profile.totalScore -
+            oldScore +
+            scoreGuess(
+              resolved.question,
+              resolved.guess,
+              answer,
+              LIFETIME_SCORING_RULE
+            ),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Counts the game towards `gamesPlayed` for everyone who guessed in it, and
+ * if it was a daily challenge, towards their streak.
+ */
+export async function recordGameFinished(ctx: MutationCtx, game: Doc<"games">) {
+  const daily =
+    game.tournamentId === null
+      ? null
+      : ((await ctx.db.get(game.tournamentId))?.daily ?? null);
+  for (const playerId of await getRunGuessers(ctx, game._id, game.run)) {
+    const profile = await getOrCreateProfileDoc(
+      ctx,
+      playerId,
+      game.players[playerId]?.name ?? ""
+    );
+    await ctx.db.patch(profile._id, {
+      gamesPlayed: profile.gamesPlayed + 1,
+      ...(daily !== null && dailyStreakUpdate(profile, daily)),
+    });
+  }
+}
+
+function dailyStreakUpdate(
+  profile: Doc<"playerProfiles">,
+  daily: DailyDate
+): Partial<Doc<"playerProfiles">> {
+  if (profile.lastDailyDate === daily) return {};
+  const dailyStreak =
+    profile.lastDailyDate === previousDailyDate(daily)
+      ? profile.dailyStreak + 1
+      : 1;
+  return {
+    dailyStreak,
+    longestDailyStreak: Math.max(profile.longestDailyStreak, dailyStreak),
+    lastDailyDate: daily,
+  };
+}
+
+export const getProfile = query({
+  args: { playerId: zid("users") },
+  handler: async (ctx, { playerId }) => {
+    if (!(await ctx.db.get(playerId)))
+      throw new ConvexError("Player not found.");
+    const profile = await getProfileDoc(ctx, playerId);
+    const guesses = await ctx.db
+      .query("resolvedGuesses")
+      .withIndex("by_playerId", (q) => q.eq("playerId", playerId))
+      .collect();
+    return {
+      playerId,
+      name: profile?.name ?? "",
+      gamesPlayed: profile?.gamesPlayed ?? 0,
+      numGuesses: profile?.numGuesses ?? 0,
+      totalScore: profile?.totalScore ?? 0,
+      dailyStreak: profile?.dailyStreak ?? 0,
+      longestDailyStreak: profile?.longestDailyStreak ?? 0,
+      lastDailyDate: profile?.lastDailyDate ?? null,
+      guesses: guesses.map(({ question, answer, guess }) => ({
+        question,
+        answer,
+        guess,
+      })),
+    };
+  },
+});
@@ -0,0 +1,286 @@
+import { z } from "zod";
+import { Question, questionSchema, zodErrorToString } from "./validation";
+
+/**
+ * Import/export formats for questions. JSON uses the same shape as
+ * `questions.json` (text → {kind, left, right, answer, tags} and so on); CSV
+ * has a header row of `text,kind,left,right,options,min,max,unit,answer,tags`
+ * with options and tags separated by semicolons. Only `text` and `answer` are
+ * required columns: a missing or blank `kind` means a left/right question.
+ */
+export const questionFileFormatSchema = z.enum(["json", "csv"]);
+export type QuestionFileFormat = z.infer<typeof questionFileFormatSchema>;
+
+const CSV_COLUMNS = [
+  "text",
+  "kind",
+  "left",
+  "right",
+  "options",
+  "min",
+  "max",
+  "unit",
+  "answer",
+  "tags",
+] as const;
+const CSV_REQUIRED_COLUMNS = ["text", "answer"] as const;
+const CSV_LIST_SEPARATOR = ";";
+
+export type QuestionRowError = {
+  /**
+   * 1-based CSV record number, counting the header: a record's quoted cells
+   * can span several lines, so this isn't a line number. The question text
+   * for JSON.
+   */
+  row: number | string;
+  message: string;
+};
+
+export type ParsedQuestionFile = {
+  questions: Question[];
+  errors: QuestionRowError[];
+};
+
+export function parseQuestionFile(
+  format: QuestionFileFormat,
+  contents: string
+): ParsedQuestionFile {
+  const result =
+    format === "json"
+      ? parseQuestionsJson(contents)
+      : parseQuestionsCsv(contents);
+  const seen = new Set<string>();
+  for (const { text } of result.questions) {
+    if (seen.has(text))
+      result.errors.push({ row: text, message: "Duplicate question text" });
+    seen.add(text);
+  }
+  return result;
+}
+
+export function serializeQuestions(
+  format: QuestionFileFormat,
+  questions: Question[]
+): string {
+  return format === "json"
+    ? questionsToJson(questions)
+    : questionsToCsv(questions);
+}
+
+export function parseQuestionsJson(contents: string): ParsedQuestionFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(contents);
+  } catch (e) {
+    return {
+      questions: [],
+      errors: [{ row: 1, message: `Invalid JSON: ${String(e)}` }],
+    };
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return {
+      questions: [],
+      errors: [
+        {
+          row: 1,
+          message: "Expected an object mapping question text to details",
+        },
+      ],
+    };
+  }
+
+  const result: ParsedQuestionFile = { questions: [], errors: [] };
+  for (const [text, details] of Object.entries(raw)) {
+    const parsed = questionSchema.safeParse({
+      tags: [],
+      ...(typeof details === "object" ? details : {}),
+      text,
+    });
+    if (parsed.success) {
+      result.questions.push(parsed.data);
+    } else {
+      result.errors.push({
+        row: text,
+        message: zodErrorToString(parsed.error),
+      });
+    }
+  }
+  return result;
+}
+
+export function questionsToJson(questions: Question[]): string {
+  return JSON.stringify(
+    Object.fromEntries(
+      questions.map(({ text, ...details }) => [text, details])
+    ),
+    null,
+    2
+  );
+}
+
+const csvBooleanSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .pipe(z.enum(["true", "false"], { message: "Expected true or false" }))
+  .transform((s) => s === "true");
+
+const csvNumberSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Expected a number" })
+  .pipe(z.coerce.number({ message: "Expected a number" }));
+
+function splitCsvList(cell: string): string[] {
+  return cell
+    .split(CSV_LIST_SEPARATOR)
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0);
+}
+
+export function parseQuestionsCsv(contents: string): ParsedQuestionFile {
+  const [header, ...rows] = parseCsv(contents);
+  const columns = header?.map((c) => c.trim().toLowerCase()) ?? [];
+  const missing = CSV_REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    return {
+      questions: [],
+      errors: [{ row: 1, message: `Missing column(s): ${missing.join(", ")}` }],
+    };
+  }
+
+  const result: ParsedQuestionFile = { questions: [], errors: [] };
+  rows.forEach((cells, i) => {
+    // after the header, which is record 1
+    const row = i + 2;
+    if (cells.every((c) => c.trim() === "")) return;
+    const get = (column: (typeof CSV_COLUMNS)[number]) =>
+      cells[columns.indexOf(column)] ?? "";
+    const kind = get("kind").trim() || "binary";
+    const numbers: Record<string, number> = {};
+    const numberColumns =
+      kind === "numeric"
+        ? (["min", "max", "answer"] as const)
+        : kind === "multipleChoice"
+          ? (["answer"] as const)
+          : [];
+    for (const column of numberColumns) {
+      const parsed = csvNumberSchema.safeParse(get(column));
+      if (!parsed.success) {
+        result.errors.push({
+          row,
+          message: `${column}: ${zodErrorToString(parsed.error)}`,
+        });
+        return;
+      }
+      numbers[column] = parsed.data;
+    }
+    let fields: Record<string, unknown>;
+    if (kind === "binary") {
+      const answer = csvBooleanSchema.safeParse(get("answer"));
+      if (!answer.success) {
+        result.errors.push({
+          row,
+          message: `answer: ${zodErrorToString(answer.error)}`,
+        });
+        return;
+      }
+      fields = { left: get("left"), right: get("right"), answer: answer.data };
+    } else if (kind === "multipleChoice") {
+      fields = { options: splitCsvList(get("options")), ...numbers };
+    } else {
+      fields = { unit: get("unit"), ...numbers };
+    }
+    const parsed = questionSchema.safeParse({
+      kind,
+      text: get("text"),
+      ...fields,
+      tags: splitCsvList(get("tags")),
+    });
+    if (parsed.success) {
+      result.questions.push(parsed.data);
+    } else {
+      result.errors.push({ row, message: zodErrorToString(parsed.error) });
+    }
+  });
+  return result;
+}
+
+export function questionsToCsv(questions: Question[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...questions.map((q) => {
+      const cells: Record<(typeof CSV_COLUMNS)[number], string> = {
+        text: q.text,
+        kind: q.kind ?? "binary",
+        left: "",
+        right: "",
+        options: "",
+        min: "",
+        max: "",
+        unit: "",
+        answer: String(q.answer),
+        tags: q.tags.join(CSV_LIST_SEPARATOR),
+      };
+      switch (q.kind) {
+        case "multipleChoice":
+          cells.options = q.options.join(CSV_LIST_SEPARATOR);
+          break;
+        case "numeric":
+          Object.assign(cells, {
+            min: String(q.min),
+            max: String(q.max),
+            unit: q.unit,
+          });
+          break;
+        default:
+          Object.assign(cells, { left: q.left, right: q.right });
+      }
+      return CSV_COLUMNS.map((c) => escapeCsvCell(cells[c])).join(",");
+    }),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+function escapeCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/** Minimal RFC 4180 parser: quoted cells, doubled quotes, CRLF or LF. */
+function parseCsv(contents: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  for (let i = 0; i < contents.length; i++) {
+    const c = contents[i];
+    if (inQuotes) {
+      if (c === '"' && contents[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && contents[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
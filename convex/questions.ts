@@ -0,0 +1,373 @@
+"use strict";
+
+import {
+  mutation as baseMutation,
+  query as baseQuery,
+  internalMutation,
+  internalQuery,
+  QueryCtx,
+} from "./_generated/server";
+import { ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import bundledQuestions from "./questions.json" with { type: "json" };
+import { QuestionRowError } from "./questionFormats";
+import {
+  gameTagFilterSchema,
+  PlayerId,
+  Question,
+  questionMatchesTags,
+  questionSchema,
+  redactQuestion,
+  seededShuffle,
+  TagFilter,
+} from "./validation";
+import {
+  zCustomQuery,
+  zCustomMutation,
+  zid,
+  zodToConvex,
+} from "convex-helpers/server/zod";
+import { v } from "convex/values";
+import { customCtx, NoOp } from "convex-helpers/server/customFunctions";
+import { getPlayerId, requirePlayerId } from "./auth";
+
+/** Mutations act on behalf of the signed-in player, as `ctx.playerId`. */
+const mutation = zCustomMutation(
+  baseMutation,
+  customCtx(async (ctx) => ({ playerId: await requirePlayerId(ctx) }))
+);
+const query = zCustomQuery(baseQuery, NoOp);
+
+export async function getAllQuestions(
+  ctx: QueryCtx
+): Promise<Doc<"questions">[]> {
+  return await ctx.db.query("questions").collect();
+}
+
+export async function getQuestionPool(
+  ctx: QueryCtx,
+  tagFilter: TagFilter
+): Promise<Doc<"questions">[]> {
+  return (await getAllQuestions(ctx)).filter((q) =>
+    questionMatchesTags(q.tags, tagFilter)
+  );
+}
+
+/**
+ * The pool in the order a game seeded with `seed` would ask it: the same
+ * order for the same seed and pool, in any game on any deployment.
+ */
+export function seededQuestionOrder(
+  pool: Doc<"questions">[],
+  seed: string
+): Doc<"questions">[] {
+  return seededShuffle(
+    [...pool].sort((a, b) => a.text.localeCompare(b.text)),
+    seed
+  );
+}
+
+/**
+ * Whether the player may edit every question, including bundled ones with no
+ * owner. Admins are listed by email, comma-separated, in the `QUESTION_ADMINS`
+ * environment variable.
+ */
+async function isQuestionAdmin(
+  ctx: QueryCtx,
+  playerId: PlayerId
+): Promise<boolean> {
+  const email = (await ctx.db.get(playerId))?.email?.toLowerCase();
+  if (!email) return false;
+  const admins = (process.env.QUESTION_ADMINS ?? "")
+    .split(",")
+    .map((admin) => admin.trim().toLowerCase());
+  return admins.includes(email);
+}
+
+/** Whether the player added the question, or is an admin. */
+export async function canEditQuestion(
+  ctx: QueryCtx,
+  playerId: PlayerId,
+  question: Doc<"questions">
+): Promise<boolean> {
+  return (
+    question.createdBy === playerId || (await isQuestionAdmin(ctx, playerId))
+  );
+}
+
+async function getQuestionAsEditor(
+  ctx: QueryCtx,
+  questionId: Id<"questions">,
+  playerId: PlayerId
+): Promise<Doc<"questions">> {
+  const question = await ctx.db.get(questionId);
+  if (!question) throw new ConvexError("Question not found.");
+  if (!(await canEditQuestion(ctx, playerId, question)))
+    throw new ConvexError({
+      message: "Only whoever added that question can change it.",
+      code: 403,
+    });
+  return question;
+}
+
+/**
+ * Whether replacing `old` with `question` would change its kind. A question
+ * that's been asked can't, as its rounds' guesses and answers would no longer
+ * fit it.
+ */
+function isKindChange(old: Doc<"questions">, question: Question): boolean {
+  return (old.kind ?? "binary") !== (question.kind ?? "binary");
+}
+
+/** Whether any round, finished or still being played, has asked it. */
+async function isQuestionAsked(
+  ctx: QueryCtx,
+  questionId: Id<"questions">
+): Promise<boolean> {
+  const [round, currentRound] = await Promise.all([
+    ctx.db
+      .query("rounds")
+      .withIndex("by_questionId", (q) => q.eq("questionId", questionId))
+      .first(),
+    ctx.db
+      .query("currentRounds")
+      .withIndex("by_questionId", (q) => q.eq("questionId", questionId))
+      .first(),
+  ]);
+  return round !== null || currentRound !== null;
+}
+
+async function assertTextAvailable(
+  ctx: QueryCtx,
+  text: string,
+  exceptId?: Id<"questions">
+) {
+  const existing = await ctx.db
+    .query("questions")
+    .withIndex("by_text", (q) => q.eq("text", text))
+    .unique();
+  if (existing && existing._id !== exceptId)
+    throw new ConvexError({
+      message: `A question with the text "${text}" already exists.`,
+      code: 400,
+    });
+}
+
+/**
+ * Every question, with answers only on the ones the caller may edit: the rest
+ * could still come up in their games.
+ */
+export const listQuestions = query({
+  args: {},
+  handler: async (ctx) => {
+    const playerId = await getPlayerId(ctx);
+    const isAdmin = playerId !== null && (await isQuestionAdmin(ctx, playerId));
+    const questions = await getAllQuestions(ctx);
+    return questions
+      .sort((a, b) => a.text.localeCompare(b.text))
+      .map((question) =>
+        isAdmin || (playerId !== null && question.createdBy === playerId)
+          ? { ...question, canEdit: true as const }
+          : {
+              _id: question._id,
+              ...redactQuestion(question),
+              tags: question.tags,
+              canEdit: false as const,
+            }
+      );
+  },
+});
+
+export const countQuestions = query({
+  args: {
+    includeTags: gameTagFilterSchema,
+    excludeTags: gameTagFilterSchema,
+  },
+  handler: async (ctx, tagFilter) => {
+    return (await getQuestionPool(ctx, tagFilter)).length;
+  },
+});
+
+/** Every tag in use, with how many questions carry it. */
+export const listTags = query({
+  args: {},
+  handler: async (ctx) => {
+    const counts: Record<string, number> = {};
+    for (const { tags } of await getAllQuestions(ctx)) {
+      for (const tag of tags) counts[tag] = (counts[tag] ?? 0) + 1;
+    }
+    return Object.entries(counts)
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => a.tag.localeCompare(b.tag));
+  },
+});
+
+export const createQuestion = mutation({
+  args: { question: questionSchema },
+  handler: async (ctx, { question }) => {
+    await assertTextAvailable(ctx, question.text);
+    return await ctx.db.insert("questions", {
+      ...question,
+      createdBy: ctx.playerId,
+    });
+  },
+});
+
+export const updateQuestion = mutation({
+  args: { questionId: zid("questions"), question: questionSchema },
+  handler: async (ctx, { questionId, question }) => {
+    const existing = await getQuestionAsEditor(ctx, questionId, ctx.playerId);
+    if (
+      isKindChange(existing, question) &&
+      (await isQuestionAsked(ctx, questionId))
+    )
+      throw new ConvexError({
+        message: "A question that's been asked can't change kind.",
+        code: 400,
+      });
+    await assertTextAvailable(ctx, question.text, questionId);
+    await ctx.db.replace(questionId, {
+      ...question,
+      createdBy: existing.createdBy,
+    });
+    return true;
+  },
+});
+
+export const deleteQuestion = mutation({
+  args: { questionId: zid("questions") },
+  handler: async (ctx, { questionId }) => {
+    await getQuestionAsEditor(ctx, questionId, ctx.playerId);
+    const currentRound = await ctx.db
+      .query("currentRounds")
+      .withIndex("by_questionId", (q) => q.eq("questionId", questionId))
+      .first();
+    if (currentRound)
+      throw new ConvexError({
+        message: "That question is being asked right now.",
+        code: 400,
+      });
+    await ctx.db.delete(questionId);
+    return true;
+  },
+});
+
+/**
+ * Copies the questions bundled in `questions.json` into the database, skipping
+ * any whose text is already present. Run once per deployment with
+ * `npx convex run questions:seedBundledQuestions`.
+ */
+export const seedBundledQuestions = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const typedBundledQuestions: Record<
+      string,
+      { left: string; right: string; answer: boolean; tags?: string[] }
+    > = bundledQuestions;
+    let inserted = 0;
+    for (const [text, { left, right, answer, tags }] of Object.entries(
+      typedBundledQuestions
+    )) {
+      const existing = await ctx.db
+        .query("questions")
+        .withIndex("by_text", (q) => q.eq("text", text))
+        .unique();
+      if (existing) continue;
+      await ctx.db.insert(
+        "questions",
+        questionSchema.parse({ text, left, right, answer, tags: tags ?? [] })
+      );
+      inserted++;
+    }
+    return inserted;
+  },
+});
+
+/**
+ * Inserts the given questions on behalf of `playerId`, overwriting any
+ * existing question with the same text. Used by the `/questions/import` HTTP
+ * route. Nothing is written if any question can't be imported: overwriting
+ * follows the same rules as `updateQuestion`.
+ */
+export const importQuestions = internalMutation({
+  args: {
+    playerId: v.id("users"),
+    questions: v.array(zodToConvex(questionSchema)),
+  },
+  handler: async (
+    ctx,
+    { playerId, questions }
+  ): Promise<{
+    created: number;
+    updated: number;
+    errors: QuestionRowError[];
+  }> => {
+    const existing = await Promise.all(
+      questions.map((question) =>
+        ctx.db
+          .query("questions")
+          .withIndex("by_text", (q) => q.eq("text", question.text))
+          .unique()
+      )
+    );
+    const errors: QuestionRowError[] = [];
+    for (const [i, question] of questions.entries()) {
+      const old = existing[i];
+      if (old && !(await canEditQuestion(ctx, playerId, old)))
+        errors.push({
+          row: question.text,
+          message: "Only whoever added this question can change it",
+        });
+      else if (
+        old &&
+        isKindChange(old, question) &&
+        (await isQuestionAsked(ctx, old._id))
+      )
+        errors.push({
+          row: question.text,
+          message: "Can't change the kind of a question that's been asked",
+        });
+    }
+    if (errors.length > 0) return { created: 0, updated: 0, errors };
+
+    let created = 0;
+    let updated = 0;
+    for (const [i, question] of questions.entries()) {
+      const old = existing[i];
+      if (old) {
+        await ctx.db.replace(old._id, {
+          ...question,
+          createdBy: old.createdBy,
+        });
+        updated++;
+      } else {
+        await ctx.db.insert("questions", { ...question, createdBy: playerId });
+        created++;
+      }
+    }
+    return { created, updated, errors };
+  },
+});
+
+/**
+ * The questions matching the tag filter that `playerId` may edit, for the
+ * `/questions/export` HTTP route. Files carry answers, so like
+ * `listQuestions`, this leaves out anyone else's questions.
+ */
+export const exportQuestions = internalQuery({
+  args: {
+    playerId: v.id("users"),
+    includeTags: v.array(v.string()),
+    excludeTags: v.array(v.string()),
+  },
+  handler: async (ctx, { playerId, ...tagFilter }): Promise<Question[]> => {
+    const isAdmin = await isQuestionAdmin(ctx, playerId);
+    const questions = await getQuestionPool(ctx, tagFilter);
+    return questions
+      .filter((question) => isAdmin || question.createdBy === playerId)
+      .sort((a, b) => a.text.localeCompare(b.text))
+      .map(({ _id, _creationTime, ...question }) =>
+        questionSchema.parse(question)
+      );
+  },
+});
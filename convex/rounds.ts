@@ -0,0 +1,375 @@
+"use strict";
+
+import { query as baseQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { ConvexError, v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  Answer,
+  crowdForecasts,
+  Guess,
+  isBinaryQuestion,
+  meanGuess,
+  NON_ANSWER_PENALTY,
+  PlayerId,
+  RedactedQuestion,
+  scoreGuess,
+  speedBonusPoints,
+} from "./validation";
+import { zCustomQuery, zid } from "convex-helpers/server/zod";
+import { NoOp } from "convex-helpers/server/customFunctions";
+import { z } from "zod";
+
+const query = zCustomQuery(baseQuery, NoOp);
+
+/** A round as it stands when its timer runs out, before it's saved. */
+export type ResolvedRound = {
+  questionId: Id<"questions">;
+  question: RedactedQuestion;
+  answer: Answer;
+  guesses: Record<PlayerId, Guess>;
+  /** players who moved their guess or locked it in */
+  answered: Set<PlayerId>;
+  /** share of the clock each player had left when they locked in */
+  lockedTimeLeft: Record<PlayerId, number>;
+};
+
+/** Every finished round of the game's `run`th run, in the order asked. */
+export async function getRunRounds(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  run: number
+): Promise<Doc<"rounds">[]> {
+  return await ctx.db
+    .query("rounds")
+    .withIndex("by_gameId_and_run_and_index", (q) =>
+      q.eq("gameId", gameId).eq("run", run)
+    )
+    .collect();
+}
+
+export async function getRunGuesses(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  run: number
+): Promise<Doc<"roundGuesses">[]> {
+  return await ctx.db
+    .query("roundGuesses")
+    .withIndex("by_gameId_and_run_and_playerId", (q) =>
+      q.eq("gameId", gameId).eq("run", run)
+    )
+    .collect();
+}
+
+export async function getPlayerScores(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  run: number
+): Promise<Record<PlayerId, number>> {
+  const res: Record<PlayerId, number> = {};
+  for (const { playerId, score } of await getRunGuesses(ctx, gameId, run)) {
+    res[playerId] ??= 0;
+    res[playerId] += score;
+  }
+  return res;
+}
+
+export type AnswerStats = {
+  /** rounds the player was in, voided ones aside */
+  numRounds: number;
+  numAnswered: number;
+  /** points per counted round, or null if none counted */
+  average: number | null;
+};
+
+/**
+ * How often each player answered over a run, and their average per question.
+ * Under the "exclude" policy, a round they didn't answer doesn't count
+ * toward their average; otherwise it counts at whatever it scored.
+ */
+export async function getPlayerAnswerStats(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  run: number
+): Promise<Record<PlayerId, AnswerStats>> {
+  const [rounds, guesses] = await Promise.all([
+    getRunRounds(ctx, gameId, run),
+    getRunGuesses(ctx, gameId, run),
+  ]);
+  const roundsById = new Map(rounds.map((round) => [round._id, round]));
+  const totals: Record<
+    PlayerId,
+    { numRounds: number; numAnswered: number; numCounted: number; sum: number }
+  > = {};
+  for (const { playerId, roundId, answered, score } of guesses) {
+    const round = roundsById.get(roundId);
+    if (!round || round.voided) continue;
+    const total = (totals[playerId] ??= {
+      numRounds: 0,
+      numAnswered: 0,
+      numCounted: 0,
+      sum: 0,
+    });
+    total.numRounds++;
+    if (answered) total.numAnswered++;
+    if (answered || round.nonAnswers !== "exclude") {
+      total.numCounted++;
+      total.sum += score;
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(totals).map(
+      ([playerId, { numRounds, numAnswered, numCounted, sum }]) => [
+        playerId,
+        {
+          numRounds,
+          numAnswered,
+          average: numCounted > 0 ? sum / numCounted : null,
+        },
+      ]
+    )
+  );
+}
+
+async function getRoundGuesses(
+  ctx: QueryCtx,
+  roundId: Id<"rounds">
+): Promise<Doc<"roundGuesses">[]> {
+  return await ctx.db
+    .query("roundGuesses")
+    .withIndex("by_roundId", (q) => q.eq("roundId", roundId))
+    .collect();
+}
+
+/** Everyone who guessed on at least one round of the run. */
+export async function getRunGuessers(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  run: number
+): Promise<Set<PlayerId>> {
+  const guesses = await getRunGuesses(ctx, gameId, run);
+  return new Set(guesses.map(({ playerId }) => playerId));
+}
+
+/**
+ * A guess's points: its score under the round's rule, plus any speed bonus.
+ * A non-answer scores nothing, or loses points under the "penalty" policy.
+ */
+function scoreRoundGuess(
+  round: Pick<
+    Doc<"rounds">,
+    "question" | "answer" | "scoringRule" | "speedBonus" | "nonAnswers"
+  >,
+  guess: Pick<Doc<"roundGuesses">, "guess" | "answered" | "lockedTimeLeft">
+): number {
+  if (!guess.answered)
+    return round.nonAnswers === "penalty" ? -NON_ANSWER_PENALTY : 0;
+  const { lockedTimeLeft } = guess;
+  const score = scoreGuess(
+    round.question,
+    guess.guess,
+    round.answer,
+    round.scoringRule
+  );
+  return score + speedBonusPoints(round.speedBonus, lockedTimeLeft, score);
+}
+
+/**
+ * Saves a just-finished round as the next round of the game's current run,
+ * scoring each guess by the game's rule. Under the "exclude" policy,
+ * non-answers are left out of the crowd's `meanGuess`.
+ */
+export async function insertFinishedRound(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  index: number,
+  round: ResolvedRound
+): Promise<Id<"rounds">> {
+  const guesses = Object.entries(round.guesses) as [PlayerId, Guess][];
+  const crowdGuesses = guesses
+    .filter(
+      ([playerId]) =>
+        game.nonAnswers !== "exclude" || round.answered.has(playerId)
+    )
+    .map(([, guess]) => guess);
+  const doc = {
+    gameId: game._id,
+    run: game.run,
+    index,
+    questionId: round.questionId,
+    question: round.question,
+    answer: round.answer,
+    voided: false,
+    scoringRule: game.scoringRule,
+    speedBonus: game.speedBonus,
+    nonAnswers: game.nonAnswers,
+    numGuesses: crowdGuesses.length,
+    meanGuess: meanGuess(round.question, crowdGuesses),
+  };
+  const roundId = await ctx.db.insert("rounds", doc);
+  await Promise.all(
+    guesses.map(([playerId, guess]) => {
+      const roundGuess = {
+        guess,
+        answered: round.answered.has(playerId),
+        lockedTimeLeft: round.lockedTimeLeft[playerId] ?? null,
+      };
+      return ctx.db.insert("roundGuesses", {
+        gameId: game._id,
+        run: game.run,
+        roundId,
+        playerId,
+        ...roundGuess,
+        score: scoreRoundGuess(doc, roundGuess),
+      });
+    })
+  );
+  return roundId;
+}
+
+/**
+ * Corrects a finished round after a dispute: either flips its answer or
+ * voids it, then rescores its guesses to match. Only binary rounds can be
+ * flipped.
+ */
+export async function correctRound(
+  ctx: MutationCtx,
+  round: Doc<"rounds">,
+  correction: "voided" | "flipped"
+) {
+  if (correction === "flipped" && typeof round.answer !== "boolean")
+    throw new ConvexError({
+      message: "Only left/right rounds can be flipped.",
+      code: 400,
+    });
+  const answer = correction === "flipped" ? !round.answer : round.answer;
+  const voided = round.voided || correction === "voided";
+  await ctx.db.patch(round._id, { answer, voided });
+  for (const guess of await getRoundGuesses(ctx, round._id)) {
+    await ctx.db.patch(guess._id, {
+      score: voided ? 0 : scoreRoundGuess({ ...round, answer }, guess),
+    });
+  }
+}
+
+export const getScores = query({
+  args: { gameId: zid("games"), run: z.number() },
+  handler: async (ctx, { gameId, run }) => {
+    return await getPlayerScores(ctx, gameId, run);
+  },
+});
+
+export const getAnswerStats = query({
+  args: { gameId: zid("games"), run: z.number() },
+  handler: async (ctx, { gameId, run }) => {
+    return await getPlayerAnswerStats(ctx, gameId, run);
+  },
+});
+
+/**
+ * One player's guess and score on every round of a run, in the order the
+ * rounds were asked. `guess` is null for rounds they sat out.
+ */
+export const getPlayerRounds = query({
+  args: { gameId: zid("games"), run: z.number(), playerId: zid("users") },
+  handler: async (ctx, { gameId, run, playerId }) => {
+    const [rounds, guesses] = await Promise.all([
+      getRunRounds(ctx, gameId, run),
+      ctx.db
+        .query("roundGuesses")
+        .withIndex("by_gameId_and_run_and_playerId", (q) =>
+          q.eq("gameId", gameId).eq("run", run).eq("playerId", playerId)
+        )
+        .collect(),
+    ]);
+    const guessesByRound = new Map(guesses.map((g) => [g.roundId, g]));
+    return rounds.map((round) => {
+      const guess = guessesByRound.get(round._id);
+      return {
+        roundId: round._id,
+        question: round.question,
+        answer: round.answer,
+        voided: round.voided,
+        guess: guess?.guess ?? null,
+        answered: guess?.answered ?? false,
+        score: guess?.score ?? 0,
+      };
+    });
+  },
+});
+
+/** A finished round with everyone's guess on it, now safe to reveal. */
+export const getRoundResults = query({
+  args: { roundId: zid("rounds") },
+  handler: async (ctx, { roundId }) => {
+    const round = await ctx.db.get(roundId);
+    if (!round) throw new ConvexError("Round not found.");
+    const guesses = await getRoundGuesses(ctx, roundId);
+    return {
+      ...round,
+      guesses: guesses.map(({ playerId, guess, answered, score }) => ({
+        playerId,
+        guess,
+        answered,
+        score,
+      })),
+    };
+  },
+});
+
+/**
+ * What each crowd forecaster would have guessed on every binary round of a
+ * run, in the order asked. Rounds nobody guessed on are left out.
+ */
+export const getCrowdForecasts = query({
+  args: { gameId: zid("games"), run: z.number() },
+  handler: async (ctx, { gameId, run }) => {
+    const [rounds, guesses] = await Promise.all([
+      getRunRounds(ctx, gameId, run),
+      getRunGuesses(ctx, gameId, run),
+    ]);
+    return rounds.flatMap((round) => {
+      const { question, answer } = round;
+      if (!isBinaryQuestion(question) || typeof answer !== "boolean") return [];
+      const forecasts = crowdForecasts(
+        guesses
+          .filter(
+            ({ roundId, answered }) =>
+              roundId === round._id &&
+              (answered || round.nonAnswers !== "exclude")
+          )
+          .flatMap(({ guess }) => (typeof guess === "number" ? [guess] : []))
+      );
+      return forecasts === null
+        ? []
+        : [
+            {
+              roundId: round._id,
+              question,
+              answer,
+              voided: round.voided,
+              scoringRule: round.scoringRule,
+              forecasts,
+            },
+          ];
+    });
+  },
+});
+
+/** Finished rounds of a run with the crowd's aggregate guess, latest first. */
+export const listRoundSummaries = baseQuery({
+  args: {
+    gameId: v.id("games"),
+    run: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, { gameId, run, paginationOpts }) => {
+    return await ctx.db
+      .query("rounds")
+      .withIndex("by_gameId_and_run_and_index", (q) =>
+        q.eq("gameId", gameId).eq("run", run)
+      )
+      .order("desc")
+      .paginate(paginationOpts);
+  },
+});
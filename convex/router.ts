@@ -1,5 +1,130 @@
 import { httpRouter } from "convex/server";
+import { corsRouter } from "convex-helpers/server/cors";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+  parseQuestionFile,
+  QuestionFileFormat,
+  questionFileFormatSchema,
+  serializeQuestions,
+} from "./questionFormats";
+import { gameTagFilterSchema, zodErrorToString } from "./validation";
 
 const http = httpRouter();
+const cors = corsRouter(http, {
+  exposedHeaders: ["Content-Type", "Content-Disposition"],
+});
+
+const CONTENT_TYPES: Record<QuestionFileFormat, string> = {
+  json: "application/json",
+  csv: "text/csv",
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": CONTENT_TYPES.json },
+  });
+}
+
+function parseFormat(url: URL) {
+  return questionFileFormatSchema.safeParse(
+    url.searchParams.get("format") ?? "json"
+  );
+}
+
+function parseTagList(param: string | null) {
+  return gameTagFilterSchema.safeParse(
+    param
+      ?.split(",")
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0) ?? []
+  );
+}
+
+/**
+ * Imports questions from the request body, in the format given by the
+ * `format` query param (`json` or `csv`), as the player whose auth token is
+ * sent as a bearer token. Nothing is imported unless every row is valid;
+ * otherwise responds 400 with `{ errors: [{ row, message }] }`.
+ */
+cors.route({
+  path: "/questions/import",
+  method: "POST",
+  handler: httpAction(async (ctx, req) => {
+    const playerId = await getAuthUserId(ctx);
+    if (!playerId)
+      return jsonResponse(
+        { errors: [{ row: 0, message: "You must be signed in." }] },
+        401
+      );
+    const format = parseFormat(new URL(req.url));
+    if (format.error)
+      return jsonResponse(
+        { errors: [{ row: 0, message: zodErrorToString(format.error) }] },
+        400
+      );
+
+    const { questions, errors } = parseQuestionFile(
+      format.data,
+      await req.text()
+    );
+    if (errors.length > 0) return jsonResponse({ errors }, 400);
+    if (questions.length === 0)
+      return jsonResponse(
+        { errors: [{ row: 0, message: "No questions found" }] },
+        400
+      );
+
+    const result = await ctx.runMutation(internal.questions.importQuestions, {
+      playerId,
+      questions,
+    });
+    return jsonResponse(result, result.errors.length > 0 ? 400 : 200);
+  }),
+});
+
+/**
+ * Downloads the questions the signed-in player may edit as `json` or `csv`,
+ * optionally filtered by the comma-separated `include` and `exclude` tag
+ * lists. Like importing, it needs the player's auth token as a bearer token.
+ */
+cors.route({
+  path: "/questions/export",
+  method: "GET",
+  handler: httpAction(async (ctx, req) => {
+    const playerId = await getAuthUserId(ctx);
+    if (!playerId)
+      return new Response("You must be signed in.", { status: 401 });
+    const url = new URL(req.url);
+    const format = parseFormat(url);
+    if (format.error)
+      return new Response(zodErrorToString(format.error), { status: 400 });
+    const includeTags = parseTagList(url.searchParams.get("include"));
+    if (includeTags.error)
+      return new Response(zodErrorToString(includeTags.error), {
+        status: 400,
+      });
+    const excludeTags = parseTagList(url.searchParams.get("exclude"));
+    if (excludeTags.error)
+      return new Response(zodErrorToString(excludeTags.error), {
+        status: 400,
+      });
+
+    const questions = await ctx.runQuery(internal.questions.exportQuestions, {
+      playerId,
+      includeTags: includeTags.data,
+      excludeTags: excludeTags.data,
+    });
+    return new Response(serializeQuestions(format.data, questions), {
+      status: 200,
+      headers: {
+        "Content-Type": CONTENT_TYPES[format.data],
+        "Content-Disposition": `attachment; filename="questions.${format.data}"`,
+      },
+    });
+  }),
+});
 
 export default http;
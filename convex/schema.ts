@@ -1,42 +1,330 @@
 import { defineSchema, defineTable } from "convex/server";
-import { v, Validator } from "convex/values";
-import { PlayerId } from "./validation";
+import { v } from "convex/values";
+import { authTables } from "@convex-dev/auth/server";
+import {
+  NON_ANSWER_POLICIES,
+  SCORING_RULES,
+  TEAM_AGGREGATIONS,
+} from "./validation";
 
-const vRedactedQuestion = v.object({
-  text: v.string(),
-  left: v.string(),
-  right: v.string(),
-});
-const vPlayerGuesses = v.record(v.string() as Validator<PlayerId>, v.number());
+/** Questions written before there were other kinds have no `kind`. */
+const vBinaryKind = v.optional(v.literal("binary"));
+const vRedactedQuestion = v.union(
+  v.object({
+    kind: vBinaryKind,
+    text: v.string(),
+    left: v.string(),
+    right: v.string(),
+  }),
+  v.object({
+    kind: v.literal("multipleChoice"),
+    text: v.string(),
+    options: v.array(v.string()),
+  }),
+  v.object({
+    kind: v.literal("numeric"),
+    text: v.string(),
+    min: v.number(),
+    max: v.number(),
+    unit: v.string(),
+  })
+);
+/**
+ * Who added a question, and so may edit or delete it. Bundled questions and
+ * those added before there were accounts have no owner.
+ */
+const vCreatedBy = v.optional(v.id("users"));
+/** see `Answer` in validation.ts */
+const vAnswer = v.union(v.boolean(), v.number());
+/** see `Guess` in validation.ts */
+const vGuess = v.union(
+  v.number(),
+  v.array(v.number()),
+  v.object({ lo: v.number(), hi: v.number() })
+);
+const vScoringRule = v.union(...SCORING_RULES.map((rule) => v.literal(rule)));
+const vNonAnswerPolicy = v.union(
+  ...NON_ANSWER_POLICIES.map((policy) => v.literal(policy))
+);
+const vPlayers = v.record(
+  v.id("users"),
+  v.object({
+    name: v.string(),
+    /** one of `TEAM_NAMES`, if the game is played in teams */
+    team: v.union(v.string(), v.null()),
+    /** whose guess counts for the team, under the "captain" aggregation */
+    captain: v.boolean(),
+  })
+);
+const vTeamAggregation = v.union(
+  v.null(),
+  ...TEAM_AGGREGATIONS.map((aggregation) => v.literal(aggregation))
+);
 
 const applicationTables = {
+  questions: defineTable(
+    v.union(
+      v.object({
+        kind: vBinaryKind,
+        text: v.string(),
+        left: v.string(),
+        right: v.string(),
+        /** true if `right` is correct, false if `left` is */
+        answer: v.boolean(),
+        tags: v.array(v.string()),
+        createdBy: vCreatedBy,
+      }),
+      v.object({
+        kind: v.literal("multipleChoice"),
+        text: v.string(),
+        options: v.array(v.string()),
+        /** index of the correct option */
+        answer: v.number(),
+        tags: v.array(v.string()),
+        createdBy: vCreatedBy,
+      }),
+      v.object({
+        kind: v.literal("numeric"),
+        text: v.string(),
+        min: v.number(),
+        max: v.number(),
+        unit: v.string(),
+        answer: v.number(),
+        tags: v.array(v.string()),
+        createdBy: vCreatedBy,
+      })
+    )
+  ).index("by_text", ["text"]),
+
   games: defineTable({
     /** randomly generated 4-letter identifier for ease of joining */
     quickId: v.string(),
     started: v.boolean(),
     roundsRemaining: v.number(),
     secondsPerQuestion: v.number(),
-    players: v.record(
-      v.string() as Validator<PlayerId>,
-      v.object({ name: v.string() })
-    ),
-    finishedRounds: v.array(
+    /** only ask questions with at least one of these tags (or any, if empty) */
+    includeTags: v.array(v.string()),
+    /** never ask questions with any of these tags */
+    excludeTags: v.array(v.string()),
+    scoringRule: vScoringRule,
+    /** how teams' guesses are combined, or null for individual play */
+    teamAggregation: vTeamAggregation,
+    /** how long to show each round's results; null waits for the host */
+    revealSeconds: v.union(v.number(), v.null()),
+    /** most points for locking in a right-leaning guess early; 0 for none */
+    speedBonus: v.number(),
+    /** how players who never touch their guess are scored */
+    nonAnswers: vNonAnswerPolicy,
+    /**
+     * makes the question order reproducible, so that games with the same
+     * seed and tags ask the same questions; null picks at random
+     */
+    questionSeed: v.union(v.string(), v.null()),
+    /** the finished round whose results are on screen, between questions */
+    reveal: v.union(
+      v.null(),
       v.object({
-        question: vRedactedQuestion,
-        answer: v.boolean(),
-        guesses: vPlayerGuesses,
+        roundId: v.id("rounds"),
+        /** null if waiting for the host to move on */
+        endsAtMs: v.union(v.number(), v.null()),
       })
     ),
+    /** frozen by the host; nothing advances until they resume */
+    paused: v.boolean(),
+    /** the pending `tickGame`, so it can be cancelled */
+    tickJobId: v.union(v.id("_scheduled_functions"), v.null()),
+    /** voided this run by the host, and not to be asked again */
+    skippedQuestionIds: v.array(v.id("questions")),
+    /** the player allowed to change settings, start, reset and kick */
+    hostPlayerId: v.id("users"),
+    players: vPlayers,
+    /** players the host has kicked, who can't join again */
+    kickedPlayerIds: v.array(v.id("users")),
+    /** incremented each time the host resets; tags the run's rounds */
+    run: v.number(),
+    /**
+     * the tournament this is one player's run of, or null for an ordinary
+     * game; such a run's host is the player, and it can't be reset
+     */
+    tournamentId: v.union(v.id("tournaments"), v.null()),
+  })
+    .index("by_quickId", ["quickId"])
+    .index("by_tournamentId_and_hostPlayerId", [
+      "tournamentId",
+      "hostPlayerId",
+    ]),
+
+  /**
+   * A fixed set of questions that each player plays through on their own,
+   * whenever they like before the deadline, as a solo game.
+   */
+  tournaments: defineTable({
+    /** randomly generated 4-letter identifier, like a game's */
+    quickId: v.string(),
+    hostPlayerId: v.id("users"),
+    /** frozen when the tournament is created, and asked in this order */
+    questionIds: v.array(v.id("questions")),
+    secondsPerQuestion: v.number(),
+    scoringRule: vScoringRule,
+    /** no runs can be started after this, though ones underway can finish */
+    deadlineMs: v.number(),
+    /** the day this is the daily challenge for, if it is one */
+    daily: v.union(v.string(), v.null()),
+  })
+    .index("by_quickId", ["quickId"])
+    .index("by_daily", ["daily"]),
+
+  /** A finished round of some run of a game. */
+  rounds: defineTable({
+    gameId: v.id("games"),
+    run: v.number(),
+    /** 0 for the first round of the run, 1 for the next... */
+    index: v.number(),
+    questionId: v.id("questions"),
+    question: vRedactedQuestion,
+    /** may be flipped by the host after a dispute, if binary */
+    answer: vAnswer,
+    /** thrown out by the host after a dispute; its guesses score 0 */
+    voided: v.boolean(),
+    scoringRule: vScoringRule,
+    /** the game's `speedBonus` when the round was played */
+    speedBonus: v.number(),
+    /** the game's `nonAnswers` when the round was played */
+    nonAnswers: vNonAnswerPolicy,
+    /** guesses counted in `meanGuess` */
+    numGuesses: v.number(),
+    /** the crowd's `meanGuess` */
+    meanGuess: vGuess,
+  })
+    .index("by_gameId_and_run_and_index", ["gameId", "run", "index"])
+    .index("by_questionId", ["questionId"]),
+
+  /** Each player's final guess on a finished round. */
+  roundGuesses: defineTable({
+    gameId: v.id("games"),
+    run: v.number(),
+    roundId: v.id("rounds"),
+    playerId: v.id("users"),
+    guess: vGuess,
+    /** false if the player never moved their guess or locked it in */
+    answered: v.boolean(),
+    /** share of the clock left when the player locked in, or null */
+    lockedTimeLeft: v.union(v.number(), v.null()),
+    /**
+     * `scoreGuess` under the rule the run was played with, plus
+     * `speedBonusPoints`; or whatever the round's `nonAnswers` says, if not
+     * `answered`
+     */
+    score: v.number(),
+  })
+    .index("by_gameId_and_run_and_playerId", ["gameId", "run", "playerId"])
+    .index("by_roundId", ["roundId"]),
+
+  /** A snapshot of one run of a game, archived when the host resets it. */
+  gameSessions: defineTable({
+    gameId: v.id("games"),
+    quickId: v.string(),
+    secondsPerQuestion: v.number(),
+    includeTags: v.array(v.string()),
+    excludeTags: v.array(v.string()),
+    scoringRule: vScoringRule,
+    teamAggregation: vTeamAggregation,
+    questionSeed: v.union(v.string(), v.null()),
+    players: vPlayers,
+    run: v.number(),
+    numRounds: v.number(),
+    finalScores: v.record(v.id("users"), v.number()),
   }).index("by_quickId", ["quickId"]),
 
+  /** Lifetime totals for each player, accumulated across every game. */
+  playerProfiles: defineTable({
+    playerId: v.id("users"),
+    /** the name the player most recently used in a game */
+    name: v.string(),
+    gamesPlayed: v.number(),
+    numGuesses: v.number(),
+    /** sum of `scoreGuess` over every resolved guess, under `LIFETIME_SCORING_RULE` */
+    totalScore: v.number(),
+    /** consecutive days of daily challenges, up to `lastDailyDate` */
+    dailyStreak: v.number(),
+    longestDailyStreak: v.number(),
+    /** the most recent day whose daily challenge the player finished */
+    lastDailyDate: v.union(v.string(), v.null()),
+  }).index("by_playerId", ["playerId"]),
+
+  /** Every guess on a finished round, kept after its game is reset. */
+  resolvedGuesses: defineTable({
+    playerId: v.id("users"),
+    gameId: v.id("games"),
+    roundId: v.id("rounds"),
+    question: vRedactedQuestion,
+    answer: vAnswer,
+    guess: vGuess,
+  })
+    .index("by_playerId", ["playerId"])
+    .index("by_roundId", ["roundId"]),
+
+  /** A player's complaint that a finished round's answer is wrong. */
+  disputes: defineTable({
+    gameId: v.id("games"),
+    run: v.number(),
+    roundId: v.id("rounds"),
+    playerId: v.id("users"),
+    reason: v.string(),
+    /** what the host did about it, or null while it's open */
+    resolution: v.union(
+      v.null(),
+      v.literal("voided"),
+      v.literal("flipped"),
+      v.literal("dismissed")
+    ),
+    /** whether someone has since looked at fixing the question itself */
+    questionReviewed: v.boolean(),
+  })
+    .index("by_gameId_and_run", ["gameId", "run"])
+    .index("by_roundId_and_playerId", ["roundId", "playerId"])
+    .index("by_roundId_and_resolution", ["roundId", "resolution"])
+    .index("by_questionReviewed_and_resolution", [
+      "questionReviewed",
+      "resolution",
+    ]),
+
+  /** When each player's tab last checked in, to tell who's still around. */
+  presence: defineTable({
+    gameId: v.id("games"),
+    playerId: v.id("users"),
+    lastSeenMs: v.number(),
+  }).index("by_gameId_and_playerId", ["gameId", "playerId"]),
+
   currentRounds: defineTable({
     gameId: v.id("games"),
+    questionId: v.id("questions"),
     question: vRedactedQuestion,
-    guesses: vPlayerGuesses,
     endsAtMs: v.number(),
-  }).index("by_gameId", ["gameId"]),
+    /** while the game is paused, the time that was left on the clock */
+    pausedWithMsLeft: v.union(v.number(), v.null()),
+    /** players whose guesses are final, with the time they had left */
+    lockedIn: v.array(
+      v.object({ playerId: v.id("users"), msLeft: v.number() })
+    ),
+  })
+    .index("by_gameId", ["gameId"])
+    .index("by_questionId", ["questionId"]),
+
+  /**
+   * Each player's guess on a current round, kept apart from the round so
+   * nobody can read anyone else's until `tickGame` finishes the round.
+   */
+  liveGuesses: defineTable({
+    roundId: v.id("currentRounds"),
+    playerId: v.id("users"),
+    guess: vGuess,
+    /** false until the player first touches their slider */
+    moved: v.boolean(),
+  }).index("by_roundId_and_playerId", ["roundId", "playerId"]),
 };
 
 export default defineSchema({
+  ...authTables,
   ...applicationTables,
 });
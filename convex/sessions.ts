@@ -0,0 +1,73 @@
+"use strict";
+
+import { query as baseQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { gameQuickIdSchema } from "./validation";
+import { getPlayerScores, getRunRounds } from "./rounds";
+import { zCustomQuery } from "convex-helpers/server/zod";
+import { NoOp } from "convex-helpers/server/customFunctions";
+
+const query = zCustomQuery(baseQuery, NoOp);
+
+/**
+ * Snapshots the game's current run, unless no rounds were ever finished.
+ * The rounds themselves stay where they are, tagged with the run number.
+ */
+export async function archiveSession(ctx: MutationCtx, game: Doc<"games">) {
+  const numRounds = (await getRunRounds(ctx, game._id, game.run)).length;
+  if (numRounds === 0) return;
+  await ctx.db.insert("gameSessions", {
+    gameId: game._id,
+    quickId: game.quickId,
+    secondsPerQuestion: game.secondsPerQuestion,
+    includeTags: game.includeTags,
+    excludeTags: game.excludeTags,
+    scoringRule: game.scoringRule,
+    teamAggregation: game.teamAggregation,
+    questionSeed: game.questionSeed,
+    players: game.players,
+    run: game.run,
+    numRounds,
+    finalScores: await getPlayerScores(ctx, game._id, game.run),
+  });
+}
+
+/** The archive of the game's `run`th run, if it has been reset since. */
+export async function findSession(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  run: number
+): Promise<Doc<"gameSessions"> | null> {
+  const game = await ctx.db.get(gameId);
+  if (!game) return null;
+  const sessions = await ctx.db
+    .query("gameSessions")
+    .withIndex("by_quickId", (q) => q.eq("quickId", game.quickId))
+    .collect();
+  return sessions.find((s) => s.gameId === gameId && s.run === run) ?? null;
+}
+
+/** Recomputes an archived run's final scores after one of its rounds changes. */
+export async function refreshSessionScores(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  run: number
+) {
+  const session = await findSession(ctx, gameId, run);
+  if (!session) return;
+  await ctx.db.patch(session._id, {
+    finalScores: await getPlayerScores(ctx, gameId, run),
+  });
+}
+
+/** Past runs of the game with this quick id, newest first. */
+export const listSessions = query({
+  args: { quickId: gameQuickIdSchema },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("gameSessions")
+      .withIndex("by_quickId", (q) => q.eq("quickId", args.quickId))
+      .order("desc")
+      .collect();
+  },
+});
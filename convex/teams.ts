@@ -0,0 +1,140 @@
+"use strict";
+
+import {
+  mutation as baseMutation,
+  query as baseQuery,
+} from "./_generated/server";
+import { ConvexError } from "convex/values";
+import { zCustomMutation, zCustomQuery, zid } from "convex-helpers/server/zod";
+import { customCtx, NoOp } from "convex-helpers/server/customFunctions";
+import { z } from "zod";
+import { Id } from "./_generated/dataModel";
+import { requirePlayerId } from "./auth";
+import { getGameAsHost } from "./games";
+import { getRunGuesses, getRunRounds } from "./rounds";
+import { findSession } from "./sessions";
+import {
+  aggregateTeamGuess,
+  PlayerId,
+  scoreGuess,
+  teamNameSchema,
+} from "./validation";
+
+/** Mutations act on behalf of the signed-in player, as `ctx.playerId`. */
+const mutation = zCustomMutation(
+  baseMutation,
+  customCtx(async (ctx) => ({ playerId: await requirePlayerId(ctx) }))
+);
+const query = zCustomQuery(baseQuery, NoOp);
+
+/** Puts a player on a team (or none). Players may pick their own team. */
+export const setPlayerTeam = mutation({
+  args: {
+    gameId: zid("games"),
+    teamPlayerId: zid("users"),
+    team: teamNameSchema.nullable(),
+  },
+  handler: async (ctx, { gameId, teamPlayerId, team }) => {
+    const game =
+      teamPlayerId === ctx.playerId
+        ? await ctx.db.get(gameId)
+        : await getGameAsHost(ctx, gameId, ctx.playerId);
+    if (!game) throw new ConvexError("Game not found.");
+    if (game.started)
+      throw new ConvexError("Game started, cannot change teams.");
+    const player = game.players[teamPlayerId];
+    if (!player) throw new ConvexError("Player not found.");
+    await ctx.db.patch(gameId, {
+      players: {
+        ...game.players,
+        [teamPlayerId]: { ...player, team, captain: false },
+      },
+    });
+  },
+});
+
+/** Makes a player their team's captain, replacing any previous one. */
+export const setTeamCaptain = mutation({
+  args: { gameId: zid("games"), captainPlayerId: zid("users") },
+  handler: async (ctx, { gameId, captainPlayerId }) => {
+    const game = await getGameAsHost(ctx, gameId, ctx.playerId);
+    if (game.started)
+      throw new ConvexError("Game started, cannot change teams.");
+    const team = game.players[captainPlayerId]?.team;
+    if (!team)
+      throw new ConvexError({
+        message: "Only a player on a team can captain it.",
+        code: 400,
+      });
+    const players = { ...game.players };
+    for (const [id, player] of Object.entries(players) as [
+      PlayerId,
+      (typeof players)[PlayerId],
+    ][]) {
+      if (player.team === team) {
+        players[id] = { ...player, captain: id === captainPlayerId };
+      }
+    }
+    await ctx.db.patch(gameId, { players });
+  },
+});
+
+/**
+ * Each team's total over a run, scoring the aggregate of its members' guesses
+ * on every round. Null if the run wasn't played in teams.
+ */
+export const getTeamScores = query({
+  args: { gameId: zid("games"), run: z.number() },
+  handler: async (ctx, { gameId, run }) => {
+    const game = await ctx.db.get(gameId);
+    if (!game) throw new ConvexError("Game not found.");
+    const settings =
+      game.run === run ? game : await findSession(ctx, gameId, run);
+    if (!settings?.teamAggregation) return null;
+    const { players, teamAggregation } = settings;
+
+    const [rounds, guesses] = await Promise.all([
+      getRunRounds(ctx, gameId, run),
+      getRunGuesses(ctx, gameId, run),
+    ]);
+    const guessesByRound = new Map<Id<"rounds">, typeof guesses>();
+    for (const guess of guesses) {
+      guessesByRound.set(guess.roundId, [
+        ...(guessesByRound.get(guess.roundId) ?? []),
+        guess,
+      ]);
+    }
+
+    const members = new Map<string, PlayerId[]>();
+    for (const [id, { team }] of Object.entries(players) as [
+      PlayerId,
+      (typeof players)[PlayerId],
+    ][]) {
+      if (team) members.set(team, [...(members.get(team) ?? []), id]);
+    }
+
+    return [...members.entries()].map(([team, memberIds]) => {
+      let score = 0;
+      for (const round of rounds) {
+        if (round.voided) continue;
+        const memberGuesses = (guessesByRound.get(round._id) ?? [])
+          .filter(
+            ({ playerId, answered }) =>
+              memberIds.includes(playerId) &&
+              (answered || round.nonAnswers !== "exclude")
+          )
+          .map(({ playerId, guess }) => ({
+            guess,
+            captain: players[playerId].captain,
+          }));
+        score += scoreGuess(
+          round.question,
+          aggregateTeamGuess(round.question, memberGuesses, teamAggregation),
+          round.answer,
+          round.scoringRule
+        );
+      }
+      return { team, memberIds, score };
+    });
+  },
+});
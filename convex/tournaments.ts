@@ -0,0 +1,250 @@
+"use strict";
+
+import _ from "lodash";
+import {
+  mutation as baseMutation,
+  query as baseQuery,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { zCustomMutation, zCustomQuery, zid } from "convex-helpers/server/zod";
+import { customCtx, NoOp } from "convex-helpers/server/customFunctions";
+import { z } from "zod";
+import { requirePlayerId } from "./auth";
+import { generateQuickId, startTournamentRun } from "./games";
+import { getQuestionPool, seededQuestionOrder } from "./questions";
+import { getPlayerScores, getRunRounds } from "./rounds";
+import {
+  DAILY_NUM_QUESTIONS,
+  DAILY_SECONDS_PER_QUESTION,
+  dailyDate,
+  DailyDate,
+  dailyDateSchema,
+  GameQuickId,
+  gameNumRoundsSchema,
+  gameQuickIdSchema,
+  gameSecondsPerQuestionSchema,
+  PlayerId,
+  ScoringRule,
+  scoringRuleSchema,
+  tournamentHoursOpenSchema,
+  zodErrorToString,
+} from "./validation";
+
+/** Mutations act on behalf of the signed-in player, as `ctx.playerId`. */
+const mutation = zCustomMutation(
+  baseMutation,
+  customCtx(async (ctx) => ({ playerId: await requirePlayerId(ctx) }))
+);
+const query = zCustomQuery(baseQuery, NoOp);
+
+/** Every player's run of the tournament, one game each. */
+async function getTournamentRuns(
+  ctx: QueryCtx,
+  tournamentId: Id<"tournaments">
+): Promise<Doc<"games">[]> {
+  return await ctx.db
+    .query("games")
+    .withIndex("by_tournamentId_and_hostPlayerId", (q) =>
+      q.eq("tournamentId", tournamentId)
+    )
+    .collect();
+}
+
+async function insertTournament(
+  ctx: MutationCtx,
+  tournament: {
+    hostPlayerId: PlayerId;
+    questionIds: Id<"questions">[];
+    secondsPerQuestion: number;
+    scoringRule: ScoringRule;
+    deadlineMs: number;
+    daily: DailyDate | null;
+  }
+): Promise<Doc<"tournaments">> {
+  const quickId = await generateQuickId(ctx);
+  const tournamentId = await ctx.db.insert("tournaments", {
+    quickId,
+    ...tournament,
+  });
+  return (await ctx.db.get(tournamentId))!;
+}
+
+/**
+ * Starts the player's run, or returns the one they already have: each player
+ * gets one go at the questions.
+ */
+async function playTournamentAs(
+  ctx: MutationCtx,
+  tournament: Doc<"tournaments">,
+  playerId: PlayerId,
+  playerName: string
+): Promise<{ _id: Id<"games">; quickId: GameQuickId }> {
+  const existing = await ctx.db
+    .query("games")
+    .withIndex("by_tournamentId_and_hostPlayerId", (q) =>
+      q.eq("tournamentId", tournament._id).eq("hostPlayerId", playerId)
+    )
+    .unique();
+  if (existing)
+    return {
+      _id: existing._id,
+      quickId: gameQuickIdSchema.parse(existing.quickId),
+    };
+  if (Date.now() > tournament.deadlineMs)
+    throw new ConvexError({
+      message: "This tournament has closed.",
+      code: 400,
+    });
+  return await startTournamentRun(ctx, tournament, playerId, playerName);
+}
+
+async function getDailyTournament(
+  ctx: QueryCtx,
+  date: DailyDate
+): Promise<Doc<"tournaments"> | null> {
+  return await ctx.db
+    .query("tournaments")
+    .withIndex("by_daily", (q) => q.eq("daily", date))
+    .unique();
+}
+
+/** Freezes a random set of questions for everyone to play through. */
+export const createTournament = mutation({
+  args: {
+    numQuestions: z.number(),
+    secondsPerQuestion: gameSecondsPerQuestionSchema,
+    scoringRule: scoringRuleSchema,
+    hoursOpen: tournamentHoursOpenSchema,
+  },
+  handler: async (ctx, args) => {
+    const pool = await getQuestionPool(ctx, {
+      includeTags: [],
+      excludeTags: [],
+    });
+    const numQuestions = gameNumRoundsSchema(pool.length).safeParse(
+      args.numQuestions
+    );
+    if (numQuestions.error)
+      throw new ConvexError({
+        message: zodErrorToString(numQuestions.error),
+        code: 400,
+      });
+    const { _id, quickId } = await insertTournament(ctx, {
+      hostPlayerId: ctx.playerId,
+      questionIds: _.sampleSize(pool, numQuestions.data).map(({ _id }) => _id),
+      secondsPerQuestion: args.secondsPerQuestion,
+      scoringRule: args.scoringRule,
+      deadlineMs: Date.now() + args.hoursOpen * 60 * 60 * 1000,
+      daily: null,
+    });
+    return { _id, quickId };
+  },
+});
+
+/**
+ * Looks a tournament up by its code. The questions stay secret, so only how
+ * many there are is returned.
+ */
+export const getTournament = query({
+  args: { quickId: gameQuickIdSchema },
+  handler: async (ctx, { quickId }) => {
+    const tournament = await ctx.db
+      .query("tournaments")
+      .withIndex("by_quickId", (q) => q.eq("quickId", quickId))
+      .unique();
+    if (!tournament) return null;
+    const { questionIds, ...rest } = tournament;
+    return { ...rest, numQuestions: questionIds.length };
+  },
+});
+
+export const playTournament = mutation({
+  args: { tournamentId: zid("tournaments"), playerName: z.string() },
+  handler: async (ctx, { tournamentId, playerName }) => {
+    const tournament = await ctx.db.get(tournamentId);
+    if (!tournament) throw new ConvexError("Tournament not found.");
+    return await playTournamentAs(ctx, tournament, ctx.playerId, playerName);
+  },
+});
+
+/**
+ * The day's challenge, or null if nobody has started it yet. Its questions
+ * stay secret, like any tournament's.
+ */
+export const getDaily = query({
+  args: { date: dailyDateSchema },
+  handler: async (ctx, { date }) => {
+    const tournament = await getDailyTournament(ctx, date);
+    if (!tournament) return null;
+    const { questionIds, ...rest } = tournament;
+    return { ...rest, numQuestions: questionIds.length };
+  },
+});
+
+/**
+ * Starts (or returns) the player's run of today's challenge. The first
+ * player of the day freezes its questions: a shuffle of the pool seeded by
+ * the date, so that it comes out the same no matter who gets there first.
+ */
+export const playDaily = mutation({
+  args: { playerName: z.string() },
+  handler: async (ctx, { playerName }) => {
+    const today = dailyDate(Date.now());
+    let tournament = await getDailyTournament(ctx, today);
+    if (!tournament) {
+      const pool = await getQuestionPool(ctx, {
+        includeTags: [],
+        excludeTags: [],
+      });
+      if (pool.length === 0)
+        throw new ConvexError("There are no questions to ask.");
+      tournament = await insertTournament(ctx, {
+        hostPlayerId: ctx.playerId,
+        questionIds: seededQuestionOrder(pool, `daily-${today}`)
+          .slice(0, DAILY_NUM_QUESTIONS)
+          .map(({ _id }) => _id),
+        secondsPerQuestion: DAILY_SECONDS_PER_QUESTION,
+        scoringRule: "log",
+        deadlineMs: Date.parse(today) + 24 * 60 * 60 * 1000,
+        daily: today,
+      });
+    }
+    return await playTournamentAs(ctx, tournament, ctx.playerId, playerName);
+  },
+});
+
+/**
+ * Everyone's total so far, best first. Since every run asks the same
+ * questions in the same order, the totals compare like with like; runs still
+ * under way are marked as such.
+ */
+export const getTournamentStandings = query({
+  args: { tournamentId: zid("tournaments") },
+  handler: async (ctx, { tournamentId }) => {
+    const runs = await getTournamentRuns(ctx, tournamentId);
+    const standings = await Promise.all(
+      runs.map(async (game) => {
+        const playerId = game.hostPlayerId;
+        const [scores, rounds, currentRound] = await Promise.all([
+          getPlayerScores(ctx, game._id, game.run),
+          getRunRounds(ctx, game._id, game.run),
+          ctx.db
+            .query("currentRounds")
+            .withIndex("by_gameId", (q) => q.eq("gameId", game._id))
+            .unique(),
+        ]);
+        return {
+          playerId,
+          name: game.players[playerId]?.name ?? "",
+          score: scores[playerId] ?? 0,
+          numRoundsPlayed: rounds.length,
+          finished: game.roundsRemaining <= 0 && currentRound === null,
+        };
+      })
+    );
+    return standings.sort((a, b) => b.score - a.score);
+  },
+});
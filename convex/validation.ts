@@ -1,23 +1,5 @@
 import { z } from "zod";
-import { Doc } from "./_generated/dataModel";
-import allQuestions from "./questions.json" with { type: "json" };
-import { Map } from "immutable";
-
-const typedRawQuestions: Record<
-  string,
-  { left: string; right: string; answer: boolean; tags?: string[] }
-> = allQuestions;
-
-export const fullQuestions = Map(
-  Object.entries(typedRawQuestions).map(
-    ([text, { left, right, answer, tags }]) => [
-      text,
-      { left, right, answer, tags },
-    ]
-  )
-).filter(({ tags }) => tags?.includes("rat"));
-export const redactedQuestions: Map<string, { left: string; right: string }> =
-  fullQuestions.map(({ left, right, tags }) => ({ left, right, tags }));
+import { Doc, Id } from "./_generated/dataModel";
 
 export const gameQuickIdSchema = z
   .string()
@@ -28,25 +10,636 @@ export const gameQuickIdSchema = z
 
 export type GameQuickId = z.infer<typeof gameQuickIdSchema>;
 export const gameSecondsPerQuestionSchema = z.number().min(1).max(15);
-export const gameNumRoundsSchema = z
+export function gameNumRoundsSchema(numQuestions: number) {
+  return z
+    .number()
+    .int()
+    .min(1)
+    .max(numQuestions, {
+      message: `There are only ${numQuestions} questions`,
+    });
+}
+/** Seconds to show each round's results; null waits for the host instead. */
+export const gameRevealSecondsSchema = z
   .number()
   .int()
+  .min(0)
+  .max(60)
+  .nullable();
+/** How long a tournament stays open for players to start their runs. */
+export const tournamentHoursOpenSchema = z
+  .number()
   .min(1)
-  .max(redactedQuestions.size, {
-    message: `There are only ${redactedQuestions.size} questions`,
+  .max(24 * 14);
+/** Fixes the order a game asks its questions in; blank means random. */
+export const gameQuestionSeedSchema = z.string().trim().max(40);
+
+/** How many questions everyone gets in each day's challenge. */
+export const DAILY_NUM_QUESTIONS = 5;
+export const DAILY_SECONDS_PER_QUESTION = 10;
+
+/** A day, as "YYYY-MM-DD" in UTC, so that everyone shares the same one. */
+export const dailyDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+export type DailyDate = z.infer<typeof dailyDateSchema>;
+
+export function dailyDate(ms: number): DailyDate {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+export function previousDailyDate(date: DailyDate): DailyDate {
+  return dailyDate(Date.parse(date) - 24 * 60 * 60 * 1000);
+}
+
+/**
+ * How many days running the player has played the daily challenge, as of
+ * `today`. A streak survives until the end of the day after its last game.
+ */
+export function currentDailyStreak(
+  streak: number,
+  lastDailyDate: DailyDate | null,
+  today: DailyDate
+): number {
+  return lastDailyDate === today || lastDailyDate === previousDailyDate(today)
+    ? streak
+    : 0;
+}
+
+/**
+ * The same shuffle of `items` every time for the same `seed`, on any
+ * machine: a mulberry32 generator seeded from a hash of the string.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** Most points a speed bonus can add to a single round. */
+export const gameSpeedBonusSchema = z.number().int().min(0).max(50);
+/** How often an open game tab tells the server its player is still there. */
+export const HEARTBEAT_INTERVAL_MS = 10_000;
+/** How long without a heartbeat before a player counts as gone. */
+export const PRESENCE_TIMEOUT_MS = 30_000;
+
+/** Whether a player last seen at `lastSeenMs` (if ever) is still around. */
+export function isOnline(lastSeenMs: number | undefined, nowMs: number) {
+  return lastSeenMs !== undefined && nowMs - lastSeenMs < PRESENCE_TIMEOUT_MS;
+}
+
+/** Any well-formed guess; `questionGuessSchema` checks it fits the question. */
+export const gamePlayerGuessSchema = z.union([
+  z.number(),
+  z.array(z.number()),
+  z.object({ lo: z.number(), hi: z.number() }),
+]);
+
+export const QUESTION_KINDS = ["binary", "multipleChoice", "numeric"] as const;
+export type QuestionKind = (typeof QUESTION_KINDS)[number];
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  binary: "Left or right",
+  multipleChoice: "Multiple choice",
+  numeric: "Numeric estimate",
+};
+
+export const MIN_CHOICES = 3;
+export const MAX_CHOICES = 6;
+
+export const questionTagSchema = z.string().trim().toLowerCase().min(1);
+const questionTextSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Question text is required" });
+
+const binaryQuestionSchema = z.object({
+  /** optional, as it is for everything written before there were other kinds */
+  kind: z.literal("binary").optional(),
+  text: questionTextSchema,
+  left: z.string().trim().min(1, { message: "Left option is required" }),
+  right: z.string().trim().min(1, { message: "Right option is required" }),
+  answer: z.boolean(),
+  tags: z.array(questionTagSchema),
+});
+const multipleChoiceQuestionSchema = z.object({
+  kind: z.literal("multipleChoice"),
+  text: questionTextSchema,
+  options: z
+    .array(z.string().trim().min(1, { message: "Options can't be blank" }))
+    .min(MIN_CHOICES, { message: `Give at least ${MIN_CHOICES} options` })
+    .max(MAX_CHOICES, { message: `Give at most ${MAX_CHOICES} options` }),
+  /** index into `options` */
+  answer: z.number().int().min(0),
+  tags: z.array(questionTagSchema),
+});
+const numericQuestionSchema = z.object({
+  kind: z.literal("numeric"),
+  text: questionTextSchema,
+  /** the range players' intervals are drawn on */
+  min: z.number(),
+  max: z.number(),
+  unit: z.string().trim(),
+  answer: z.number(),
+  tags: z.array(questionTagSchema),
+});
+
+export const questionSchema = z
+  .discriminatedUnion("kind", [
+    binaryQuestionSchema,
+    multipleChoiceQuestionSchema,
+    numericQuestionSchema,
+  ])
+  .superRefine((q, ctx) => {
+    if (q.kind === "multipleChoice" && q.answer >= q.options.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["answer"],
+        message: "Answer must be one of the options",
+      });
+    }
+    if (q.kind === "numeric") {
+      if (q.min >= q.max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["max"],
+          message: "Max must be greater than min",
+        });
+      } else if (q.answer < q.min || q.answer > q.max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["answer"],
+          message: "Answer must be between min and max",
+        });
+      }
+    }
   });
-export const gamePlayerGuessSchema = z.number().min(0).max(1);
+export type Question = z.infer<typeof questionSchema>;
 
-export const playerIdSchema = z.string().trim().length(10).brand("playerId");
-export type PlayerId = z.infer<typeof playerIdSchema>;
+/** What players see of a question while they're guessing. */
+export type RedactedQuestion = Doc<"rounds">["question"];
+/**
+ * Binary: whether `right` is correct; multiple choice: the correct option's
+ * index; numeric: the true value.
+ */
+export type Answer = Doc<"rounds">["answer"];
+/**
+ * Binary: the probability on `right`; multiple choice: a probability for each
+ * option; numeric: a 90% confidence interval.
+ */
+export type Guess = Doc<"roundGuesses">["guess"];
+export type Interval = { lo: number; hi: number };
+export type BinaryQuestion = Extract<RedactedQuestion, { left: string }>;
+export type MultipleChoiceQuestion = Extract<
+  RedactedQuestion,
+  { kind: "multipleChoice" }
+>;
+export type NumericQuestion = Extract<RedactedQuestion, { kind: "numeric" }>;
+
+export function isBinaryQuestion(
+  question: RedactedQuestion
+): question is BinaryQuestion {
+  return question.kind === undefined || question.kind === "binary";
+}
+
+export function redactQuestion(question: Doc<"questions">): RedactedQuestion {
+  switch (question.kind) {
+    case "multipleChoice":
+      return {
+        kind: question.kind,
+        text: question.text,
+        options: question.options,
+      };
+    case "numeric":
+      return {
+        kind: question.kind,
+        text: question.text,
+        min: question.min,
+        max: question.max,
+        unit: question.unit,
+      };
+    default:
+      return {
+        kind: "binary",
+        text: question.text,
+        left: question.left,
+        right: question.right,
+      };
+  }
+}
+
+/** The no-opinion guess every player starts a round on; it scores 0. */
+export function defaultGuess(question: RedactedQuestion): Guess {
+  switch (question.kind) {
+    case "multipleChoice":
+      return question.options.map(() => 1 / question.options.length);
+    case "numeric":
+      return { lo: question.min, hi: question.max };
+    default:
+      return 0.5;
+  }
+}
+
+/** How far a multiple-choice guess's probabilities may stray from summing to 1. */
+const PROBABILITY_SUM_TOLERANCE = 1e-6;
+
+export function questionGuessSchema(question: RedactedQuestion) {
+  switch (question.kind) {
+    case "multipleChoice":
+      return z
+        .array(z.number().min(0).max(1))
+        .length(question.options.length, {
+          message: "Give a probability for each option",
+        })
+        .refine(
+          (probs) =>
+            Math.abs(probs.reduce((a, b) => a + b, 0) - 1) <=
+            PROBABILITY_SUM_TOLERANCE,
+          { message: "Probabilities must add up to 100%" }
+        );
+    case "numeric":
+      return z
+        .object({
+          lo: z.number().min(question.min).max(question.max),
+          hi: z.number().min(question.min).max(question.max),
+        })
+        .refine(({ lo, hi }) => lo <= hi, {
+          message: "The interval's low end must not exceed its high end",
+        });
+    default:
+      return z.number().min(0).max(1);
+  }
+}
+
+export const gameTagFilterSchema = z.array(questionTagSchema);
+/** Which questions a game may ask, by tag. An empty `includeTags` allows any. */
+export type TagFilter = { includeTags: string[]; excludeTags: string[] };
+
+export function questionMatchesTags(
+  tags: string[],
+  { includeTags, excludeTags }: TagFilter
+): boolean {
+  return (
+    (includeTags.length === 0 || includeTags.some((t) => tags.includes(t))) &&
+    !excludeTags.some((t) => tags.includes(t))
+  );
+}
+
+/** Players are identified by their Convex Auth user id. */
+export type PlayerId = Id<"users">;
 
 export type StartedGame = Doc<"games"> & { started: true };
 export type LobbyGame = Doc<"games"> & { started: false };
 
-export function scoreGuess(guess: number, answer: boolean) {
-  return 100 * (1 + Math.log2(answer ? guess : 1 - guess));
+export const SCORING_RULES = [
+  "log",
+  "clippedLog",
+  "brier",
+  "spherical",
+] as const;
+export const scoringRuleSchema = z.enum(SCORING_RULES);
+export type ScoringRule = z.infer<typeof scoringRuleSchema>;
+
+export const SCORING_RULE_LABELS: Record<ScoringRule, string> = {
+  log: "Logarithmic",
+  clippedLog: "Logarithmic, clipped at 5%",
+  brier: "Brier (quadratic)",
+  spherical: "Spherical",
+};
+
+/**
+ * The rule players' lifetime totals are kept in, whatever each game used.
+ * It's clipped, so one confident miss can't sink a profile to -Infinity.
+ */
+export const LIFETIME_SCORING_RULE: ScoringRule = "clippedLog";
+
+export const TEAM_NAMES = ["Red", "Blue", "Green", "Gold"] as const;
+export const teamNameSchema = z.enum(TEAM_NAMES);
+export type TeamName = z.infer<typeof teamNameSchema>;
+
+/** How a team's members' guesses combine into the one the team is scored on. */
+export const TEAM_AGGREGATIONS = [
+  "meanProbability",
+  "meanLogOdds",
+  "captain",
+] as const;
+export const teamAggregationSchema = z.enum(TEAM_AGGREGATIONS);
+export type TeamAggregation = z.infer<typeof teamAggregationSchema>;
+
+export const TEAM_AGGREGATION_LABELS: Record<TeamAggregation, string> = {
+  meanProbability: "Average of probabilities",
+  meanLogOdds: "Average of log-odds",
+  captain: "Captain decides",
+};
+
+/** Points lost for a non-answer under the "penalty" policy. */
+export const NON_ANSWER_PENALTY = 25;
+
+/**
+ * What happens to a player who never touches their guess: it scores 0, costs
+ * them `NON_ANSWER_PENALTY`, or scores 0 and is left out of their average
+ * (and the round's crowd average).
+ */
+export const NON_ANSWER_POLICIES = ["zero", "penalty", "exclude"] as const;
+export const nonAnswerPolicySchema = z.enum(NON_ANSWER_POLICIES);
+export type NonAnswerPolicy = z.infer<typeof nonAnswerPolicySchema>;
+
+export const NON_ANSWER_POLICY_LABELS: Record<NonAnswerPolicy, string> = {
+  zero: "Non-answers score 0",
+  penalty: `Non-answers lose ${NON_ANSWER_PENALTY} points`,
+  exclude: "Non-answers don't count toward averages",
+};
+
+/** Keeps log-odds finite for guesses of exactly 0 or 1. */
+const LOG_ODDS_CLAMP = 1e-4;
+
+/**
+ * The team's guess on a round, given whichever members guessed. A team with
+ * no guesses (or, in captain mode, no captain's guess) sits on
+ * `defaultGuess`. Numeric intervals have no log-odds, so both averaging
+ * modes average their endpoints.
+ */
+export function aggregateTeamGuess(
+  question: RedactedQuestion,
+  members: { guess: Guess; captain: boolean }[],
+  aggregation: TeamAggregation
+): Guess {
+  if (aggregation === "captain") {
+    return (
+      members.find(({ captain }) => captain)?.guess ?? defaultGuess(question)
+    );
+  }
+  const guesses = members.map(({ guess }) => guess);
+  if (aggregation === "meanProbability" || guesses.length === 0) {
+    return meanGuess(question, guesses);
+  }
+  switch (question.kind) {
+    case "multipleChoice": {
+      const distributions = guesses.map(asDistribution);
+      return normalize(
+        question.options.map((_, i) =>
+          Math.exp(
+            mean(
+              distributions.map((probs) => Math.log(clampProbability(probs[i])))
+            )
+          )
+        )
+      );
+    }
+    case "numeric":
+      return meanGuess(question, guesses);
+    default:
+      return fromLogOdds(mean(guesses.map(asProbability).map(toLogOdds)));
+  }
+}
+
+/**
+ * The average of everyone's guesses: their mean probability on each option,
+ * or their intervals' mean endpoints. With no guesses, `defaultGuess`.
+ */
+export function meanGuess(question: RedactedQuestion, guesses: Guess[]): Guess {
+  if (guesses.length === 0) return defaultGuess(question);
+  switch (question.kind) {
+    case "multipleChoice": {
+      const distributions = guesses.map(asDistribution);
+      return question.options.map((_, i) =>
+        mean(distributions.map((probs) => probs[i]))
+      );
+    }
+    case "numeric": {
+      const intervals = guesses.map(asInterval);
+      return {
+        lo: mean(intervals.map(({ lo }) => lo)),
+        hi: mean(intervals.map(({ hi }) => hi)),
+      };
+    }
+    default:
+      return mean(guesses.map(asProbability));
+  }
+}
+
+/**
+ * The probability a guess put on the correct answer, or null for numeric
+ * questions, whose guesses are intervals.
+ */
+export function probabilityOnAnswer(
+  question: RedactedQuestion,
+  guess: Guess,
+  answer: Answer
+): number | null {
+  switch (question.kind) {
+    case "multipleChoice":
+      return asDistribution(guess)[Number(answer)];
+    case "numeric":
+      return null;
+    default: {
+      const p = asProbability(guess);
+      return answer ? p : 1 - p;
+    }
+  }
+}
+
+/** Synthetic players who guess some aggregate of everyone's guesses. */
+export const CROWD_FORECASTERS = [
+  "mean",
+  "geoMeanOdds",
+  "median",
+  "extremized",
+] as const;
+export type CrowdForecaster = (typeof CROWD_FORECASTERS)[number];
+
+export const CROWD_FORECASTER_LABELS: Record<CrowdForecaster, string> = {
+  mean: "Crowd (mean)",
+  geoMeanOdds: "Crowd (geo. mean odds)",
+  median: "Crowd (median)",
+  extremized: "Crowd (extremized)",
+};
+
+/** How far `extremized` pushes the mean log-odds away from 50/50. */
+const EXTREMIZING_FACTOR = 2;
+
+/** Each crowd forecaster's guess given everyone's guesses; null if none. */
+export function crowdForecasts(
+  guesses: number[]
+): Record<CrowdForecaster, number> | null {
+  if (guesses.length === 0) return null;
+  const sorted = [...guesses].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const meanLogOdds = mean(guesses.map(toLogOdds));
+  return {
+    mean: mean(guesses),
+    geoMeanOdds: fromLogOdds(meanLogOdds),
+    median:
+      sorted.length % 2 === 1
+        ? sorted[mid]
+        : (sorted[mid - 1] + sorted[mid]) / 2,
+    extremized: fromLogOdds(EXTREMIZING_FACTOR * meanLogOdds),
+  };
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function normalize(xs: number[]): number[] {
+  const total = xs.reduce((a, b) => a + b, 0);
+  return xs.map((x) => x / total);
+}
+
+function clampProbability(prob: number): number {
+  return Math.min(Math.max(prob, LOG_ODDS_CLAMP), 1 - LOG_ODDS_CLAMP);
+}
+
+function toLogOdds(prob: number): number {
+  const p = clampProbability(prob);
+  return Math.log(p / (1 - p));
+}
+
+function fromLogOdds(logOdds: number): number {
+  return 1 / (1 + Math.exp(-logOdds));
+}
+
+/** Probabilities below this score as if they were this, under `clippedLog`. */
+const CLIPPED_LOG_FLOOR = 0.05;
+
+/**
+ * The extra points for locking in with `timeLeft` of the clock to spare,
+ * scaled from `maxBonus` down to 0. Only guesses that scored above zero earn
+ * it, so locking in a coin flip straight away isn't worth anything.
+ */
+export function speedBonusPoints(
+  maxBonus: number,
+  timeLeft: number | null,
+  score: number
+): number {
+  if (timeLeft === null || score <= 0) return 0;
+  return maxBonus * Math.min(Math.max(timeLeft, 0), 1);
+}
+
+/**
+ * Points for a guess on any kind of question. `rule` applies to binary and
+ * multiple-choice questions; numeric ones always use `scoreInterval`.
+ */
+export function scoreGuess(
+  question: RedactedQuestion,
+  guess: Guess,
+  answer: Answer,
+  rule: ScoringRule
+): number {
+  switch (question.kind) {
+    case "multipleChoice":
+      return scoreDistribution(asDistribution(guess), Number(answer), rule);
+    case "numeric":
+      return scoreInterval(
+        asInterval(guess),
+        Number(answer),
+        question.max - question.min
+      );
+    default:
+      return scoreBinaryGuess(asProbability(guess), Boolean(answer), rule);
+  }
+}
+
+/** Points for putting probability `guess` on the right-hand option. */
+export function scoreBinaryGuess(
+  guess: number,
+  answer: boolean,
+  rule: ScoringRule
+): number {
+  return scoreDistribution([1 - guess, guess], answer ? 1 : 0, rule);
+}
+
+/**
+ * Points for spreading probability `probs` over the options when option
+ * `answer` is correct. Every rule is scaled so that a uniform guess scores 0
+ * and certainty in the correct answer scores +100; they differ in how hard
+ * they punish confident misses.
+ */
+export function scoreDistribution(
+  probs: number[],
+  answer: number,
+  rule: ScoringRule
+): number {
+  const n = probs.length;
+  const p = probs[answer];
+  switch (rule) {
+    case "log":
+      return 100 * (1 + Math.log(p) / Math.log(n));
+    case "clippedLog":
+      return 100 * (1 + Math.log(Math.max(p, CLIPPED_LOG_FLOOR)) / Math.log(n));
+    case "brier": {
+      const uniform = (n - 1) / n;
+      const brier = probs.reduce(
+        (total, q, i) => total + (q - (i === answer ? 1 : 0)) ** 2,
+        0
+      );
+      return 100 * (1 - brier / uniform);
+    }
+    case "spherical": {
+      const uniform = 1 / Math.sqrt(n);
+      const s = p / Math.sqrt(probs.reduce((total, q) => total + q ** 2, 0));
+      return (100 * (s - uniform)) / (1 - uniform);
+    }
+  }
+}
+
+/** The interval score below is for central intervals of 1 - this. */
+const INTERVAL_ALPHA = 0.1;
+
+/**
+ * Points for a 90% interval on a numeric question, from the interval score
+ * (width, plus 20× the distance by which it misses), measured in units of
+ * the question's `range`. Claiming the whole range scores 0 and a
+ * zero-width interval on the answer scores +100.
+ */
+export function scoreInterval(
+  { lo, hi }: Interval,
+  answer: number,
+  range: number
+): number {
+  const penalty =
+    hi -
+    lo +
+    (2 / INTERVAL_ALPHA) *
+      (Math.max(0, lo - answer) + Math.max(0, answer - hi));
+  return 100 * (1 - penalty / range);
+}
+
+/** Narrows a guess to the shape a binary question takes. */
+export function asProbability(guess: Guess): number {
+  if (typeof guess !== "number") throw new Error("Expected a probability");
+  return guess;
+}
+
+export function asDistribution(guess: Guess): number[] {
+  if (!Array.isArray(guess))
+    throw new Error("Expected a probability for each option");
+  return guess;
+}
+
+export function asInterval(guess: Guess): Interval {
+  if (typeof guess !== "object" || Array.isArray(guess))
+    throw new Error("Expected an interval");
+  return guess;
 }
 
 export function zodErrorToString(error: z.ZodError): string {
-  return error.format()._errors.join("\n");
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("\n");
 }
@@ -1,5 +1,11 @@
-import { useMutation, useQuery } from "convex/react";
-import { useEffect, useMemo, useState } from "react";
+import {
+  Authenticated,
+  AuthLoading,
+  Unauthenticated,
+  useMutation,
+  useQuery,
+} from "convex/react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast, Toaster } from "sonner";
 import { api } from "../convex/_generated/api";
 import { Id } from "../convex/_generated/dataModel";
@@ -10,14 +16,25 @@ import {
   StartedGame,
 } from "../convex/validation";
 import { CreateGameButton } from "./CreateGameButton";
+import { DailyChallenge } from "./Daily";
 import { GameLobby, RunningGame } from "./Game";
-import { usePlayerId } from "./player-info";
+import { Profile } from "./Profile";
+import { QuestionBank } from "./QuestionBank";
+import { PlayerIdProvider, usePlayerId } from "./player-info";
+import { useHeartbeat } from "./presence";
+import { ClockOffsetProvider, useClockSync } from "./server-clock";
+import { SignInForm } from "./SignInForm";
+import { SignOutButton } from "./SignOutButton";
+import { SpectatorScreen } from "./SpectatorScreen";
+import { Tournaments } from "./Tournament";
 import { errString } from "./lib/utils";
 
 export default function App({
   gameQuickIdFromHash,
+  tournamentQuickIdFromHash,
 }: {
-  gameQuickIdFromHash: GameQuickId | undefined;
+  gameQuickIdFromHash?: GameQuickId;
+  tournamentQuickIdFromHash?: GameQuickId;
 }) {
   return (
     <div className="flex flex-col">
@@ -25,10 +42,30 @@ export default function App({
         <h2 className="text-xl font-semibold text-primary">
           <a href="/">Probable Panic</a>
         </h2>
+        <SignOutButton />
       </header>
       <main className="flex-1 flex items-center justify-center">
         <div className="w-full mx-auto">
-          <Content gameQuickIdFromHash={gameQuickIdFromHash} />
+          <AuthLoading>
+            <Spinner />
+          </AuthLoading>
+          <Unauthenticated>
+            <div className="flex flex-col gap-8 max-w-md mx-auto">
+              <div className="text-center">
+                <h1 className="text-4xl font-bold text-primary mb-4">
+                  Probable Panic
+                </h1>
+                <p className="text-lg text-secondary">Sign in to play!</p>
+              </div>
+              <SignInForm />
+            </div>
+          </Unauthenticated>
+          <Authenticated>
+            <SignedInContent
+              gameQuickIdFromHash={gameQuickIdFromHash}
+              tournamentQuickIdFromHash={tournamentQuickIdFromHash}
+            />
+          </Authenticated>
         </div>
       </main>
       <Toaster />
@@ -36,10 +73,53 @@ export default function App({
   );
 }
 
+/** The TV view: no header, no sign-in, just the game. */
+export function SpectatorApp({ quickId }: { quickId: GameQuickId }) {
+  const clockOffsetMs = useClockSync();
+  return (
+    <ClockOffsetProvider value={clockOffsetMs}>
+      <SpectatorScreen quickId={quickId} />
+      <Toaster />
+    </ClockOffsetProvider>
+  );
+}
+
+function Spinner() {
+  return (
+    <div className="flex justify-center items-center p-8">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+}
+
+function SignedInContent({
+  gameQuickIdFromHash,
+  tournamentQuickIdFromHash,
+}: {
+  gameQuickIdFromHash: GameQuickId | undefined;
+  tournamentQuickIdFromHash: GameQuickId | undefined;
+}) {
+  const user = useQuery(api.auth.loggedInUser);
+  const clockOffsetMs = useClockSync();
+  if (!user) return <Spinner />;
+  return (
+    <PlayerIdProvider value={user._id}>
+      <ClockOffsetProvider value={clockOffsetMs}>
+        <Content
+          gameQuickIdFromHash={gameQuickIdFromHash}
+          tournamentQuickIdFromHash={tournamentQuickIdFromHash}
+        />
+      </ClockOffsetProvider>
+    </PlayerIdProvider>
+  );
+}
+
 function Content({
   gameQuickIdFromHash,
+  tournamentQuickIdFromHash,
 }: {
   gameQuickIdFromHash: GameQuickId | undefined;
+  tournamentQuickIdFromHash: GameQuickId | undefined;
 }) {
   const playerId = usePlayerId();
   useEffect(() => {
@@ -49,7 +129,7 @@ function Content({
   useEffect(() => {
     console.log("gameQuickIdFromHash", gameQuickIdFromHash);
     if (gameQuickIdFromHash) {
-      joinGameMutation({ quickId: gameQuickIdFromHash, playerId })
+      joinGameMutation({ quickId: gameQuickIdFromHash })
         .then((gameId) => {
           setCurrentGameId(gameId);
           window.location.hash = gameQuickIdFromHash;
@@ -62,21 +142,48 @@ function Content({
   }, [gameQuickIdFromHash, playerId, joinGameMutation]);
 
   const [currentGameId, setCurrentGameId] = useState<Id<"games"> | null>(null);
+  const [view, setView] = useState<
+    "home" | "questions" | "profile" | "tournaments" | "daily"
+  >(tournamentQuickIdFromHash ? "tournaments" : "home");
+  const [tournamentQuickId, setTournamentQuickId] =
+    useState<GameQuickId | null>(tournamentQuickIdFromHash ?? null);
+  const showTournament = useCallback((quickId: GameQuickId | null) => {
+    setTournamentQuickId(quickId);
+    window.location.hash = quickId ? `${quickId}/tournament` : "";
+  }, []);
   const currentGame: StartedGame | LobbyGame | null | undefined = useQuery(
     api.games.getGame,
     currentGameId ? { gameId: currentGameId } : "skip"
   );
 
-  if (currentGame) {
+  const isInCurrentGame = !!currentGame?.players[playerId];
+  useHeartbeat(isInCurrentGame ? currentGameId : null);
+  useEffect(() => {
+    if (currentGame && !isInCurrentGame) {
+      toast.error("You were removed from the game.");
+      setCurrentGameId(null);
+      window.location.hash = "";
+    }
+  }, [currentGame, isInCurrentGame]);
+
+  const leaveGameMutation = useMutation(api.games.leaveGame);
+  const handleLeave = useCallback(() => {
+    if (currentGameId) {
+      leaveGameMutation({ gameId: currentGameId }).catch((error) =>
+        toast.error(errString(error))
+      );
+    }
+    setCurrentGameId(null);
+    window.location.hash = "";
+  }, [currentGameId, leaveGameMutation]);
+
+  if (currentGame && isInCurrentGame) {
     if (currentGame.started) {
       return (
         <RunningGame
           game={currentGame}
           playerId={playerId}
-          onLeave={() => {
-            setCurrentGameId(null);
-            window.location.hash = "";
-          }}
+          onLeave={handleLeave}
         />
       );
     } else {
@@ -84,15 +191,45 @@ function Content({
         <GameLobby
           playerId={playerId}
           game={currentGame}
-          onLeave={() => {
-            setCurrentGameId(null);
-            window.location.hash = "";
-          }}
+          onLeave={handleLeave}
         />
       );
     }
   }
 
+  if (view === "questions") {
+    return <QuestionBank onBack={() => setView("home")} />;
+  }
+  if (view === "profile") {
+    return <Profile playerId={playerId} onBack={() => setView("home")} />;
+  }
+  if (view === "daily") {
+    return (
+      <DailyChallenge
+        playerId={playerId}
+        onPlay={({ id, quickId }) => {
+          setCurrentGameId(id);
+          window.location.hash = quickId;
+        }}
+        onBack={() => setView("home")}
+      />
+    );
+  }
+  if (view === "tournaments") {
+    return (
+      <Tournaments
+        quickId={tournamentQuickId}
+        setQuickId={showTournament}
+        playerId={playerId}
+        onPlay={({ id, quickId }) => {
+          setCurrentGameId(id);
+          window.location.hash = quickId;
+        }}
+        onBack={() => setView("home")}
+      />
+    );
+  }
+
   return (
     <div className="flex flex-col gap-8 max-w-md mx-auto">
       <div className="text-center">
@@ -112,6 +249,32 @@ function Content({
           </CreateGameButton>
         </div>
         <JoinGameForm setCurrentGameId={setCurrentGameId} />
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => setView("profile")}
+            className="w-full px-4 py-2 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            My Profile
+          </button>
+          <button
+            onClick={() => setView("questions")}
+            className="w-full px-4 py-2 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            Manage Questions
+          </button>
+          <button
+            onClick={() => setView("daily")}
+            className="w-full px-4 py-2 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            Daily Challenge
+          </button>
+          <button
+            onClick={() => setView("tournaments")}
+            className="w-full px-4 py-2 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            Tournaments
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -122,7 +285,6 @@ function JoinGameForm({
 }: {
   setCurrentGameId: (gameId: Id<"games">) => void;
 }) {
-  const playerId = usePlayerId();
   const [quickIdField, setQuickIdField] = useState("");
   const { data: quickId, error: parseError } = useMemo(
     () => gameQuickIdSchema.safeParse(quickIdField),
@@ -139,7 +301,6 @@ function JoinGameForm({
 
     joinGameMutation({
       quickId,
-      playerId,
     })
       .then((gameId) => {
         window.location.hash = quickId;
@@ -1,21 +1,34 @@
-import { Data, Layout } from "plotly.js";
-import { useEffect, useMemo, useState } from "react";
+import { Config, Data, Layout } from "plotly.js";
+import { useMemo } from "react";
 import Plot from "react-plotly.js";
-import { scoreGuess } from "../convex/validation";
+import { scoreBinaryGuess, ScoringRule } from "../convex/validation";
+import { summarizeCalibration } from "./lib/calibration";
 import { formatPlusMinusInt, formatProbabilityAsPercentage } from "./lib/utils";
-import { List } from "immutable";
 
+/** A guess on a left/right round; other kinds have no one probability. */
 export type CalibrationData = {
   prob: number;
   question: { text: string; left: string; right: string; answer: boolean };
+  /** the points the guess was awarded, if not just its score under the rule */
+  score?: number;
 };
 
+/** Some other forecaster's guesses, drawn alongside the player's score. */
+export type ComparisonTrace = { name: string; data: CalibrationData[] };
+
+const COMPARISON_COLORS = ["#9333ea", "#ea580c", "#0d9488", "#db2777"];
+const NO_COMPARISONS: ComparisonTrace[] = [];
+
 export const CalibrationPlot = ({
   data,
+  scoringRule,
   width,
+  comparisons = NO_COMPARISONS,
 }: {
   data: CalibrationData[];
+  scoringRule: ScoringRule;
   width: number;
+  comparisons?: ComparisonTrace[];
 }) => {
   const plotData = useMemo((): { traces: Data[]; layout: Partial<Layout> } => {
     const x: number[] = [];
@@ -25,7 +38,8 @@ export const CalibrationPlot = ({
       const [rightAnswer, wrongAnswer] = d.question.answer
         ? [d.question.right, d.question.left]
         : [d.question.left, d.question.right];
-      const score = scoreGuess(d.prob, d.question.answer);
+      const score =
+        d.score ?? scoreBinaryGuess(d.prob, d.question.answer, scoringRule);
       const [greaterProb, greaterAnswer] =
         d.prob < 0.5
           ? [1 - d.prob, d.question.left]
@@ -33,7 +47,7 @@ export const CalibrationPlot = ({
       const text = `Q. ${d.question.text}<br>A. ${rightAnswer} (vs ${wrongAnswer})<br>You: ${greaterAnswer} ${formatProbabilityAsPercentage(greaterProb)} (${formatPlusMinusInt(score)}pt)`;
 
       x.push(x.length + 1);
-      y.push((y[y.length - 1] ?? 0) + scoreGuess(d.prob, d.question.answer));
+      y.push((y[y.length - 1] ?? 0) + score);
       texts.push(text);
     }
 
@@ -51,16 +65,29 @@ export const CalibrationPlot = ({
         hoverlabel: { align: "left" },
         marker: { color: "#2563eb", size: 10 },
       },
-      // {
-      //   x: cumulativeData.map((d) => d.prob),
-      //   y: cumulativeData.map((d) => d.cumActual),
-      //   name: "Cumulative Actuals",
-      //   type: "scatter",
-      //   mode: "lines",
-      //   line: { color: "#dc2626", width: 2 },
-      //   hovertemplate:
-      //     "Probability: %{x:.2f}<br>Cumulative Actual: %{y:.2f}<extra></extra>",
-      // },
+      ...comparisons.map((comparison, i): Data => {
+        let total = 0;
+        return {
+          x: comparison.data.map((_, j) => j + 1),
+          y: comparison.data.map((d) => {
+            total += scoreBinaryGuess(d.prob, d.question.answer, scoringRule);
+            return total;
+          }),
+          name: comparison.name,
+          type: "scatter",
+          mode: "lines",
+          line: {
+            color: COMPARISON_COLORS[i % COMPARISON_COLORS.length],
+            width: 1,
+            dash: "dash",
+            shape: "hv",
+          },
+          hovertemplate: comparison.data.map(
+            (d) =>
+              `${comparison.name}: ${formatProbabilityAsPercentage(d.prob)} on ${d.question.right}`
+          ),
+        };
+      }),
     ];
 
     const layout: Partial<Layout> = {
@@ -82,12 +109,12 @@ export const CalibrationPlot = ({
         zeroline: true,
       },
       margin: { t: 40, r: 80, b: 50, l: 60 },
-      // showlegend: true,
-      // legend: {
-      //   x: 0.85,
-      //   y: 1.05,
-      //   bgcolor: "rgba(255, 255, 255, 0.8)",
-      // },
+      showlegend: comparisons.length > 0,
+      legend: {
+        x: 0.02,
+        y: 0.98,
+        bgcolor: "rgba(255, 255, 255, 0.8)",
+      },
       hovermode: "closest" as const,
       autosize: true,
       // width: 600,
@@ -95,27 +122,174 @@ export const CalibrationPlot = ({
     };
 
     return { traces, layout };
-  }, [data]);
+  }, [data, scoringRule, comparisons]);
+
+  return (
+    <>
+      <Plot
+        data={plotData.traces}
+        layout={plotData.layout}
+        config={PLOT_CONFIG}
+        style={{ width: `${width}px`, height: "500px" }}
+        className="border border-gray-300 my-4"
+      />
+      <ReliabilityDiagram data={data} width={width} comparisons={comparisons} />
+    </>
+  );
+};
+
+const PLOT_CONFIG: Partial<Config> = {
+  responsive: true,
+  displayModeBar: true,
+  displaylogo: false,
+  modeBarButtonsToRemove: ["lasso2d", "select2d"],
+};
+
+function summarizeData(data: CalibrationData[]) {
+  return summarizeCalibration(
+    data.map((d) => ({ prob: d.prob, answer: d.question.answer }))
+  );
+}
+
+/**
+ * Stated confidence vs. how often the favored side was right, bucketed into
+ * bins. A perfectly calibrated forecaster sits on the diagonal.
+ */
+const ReliabilityDiagram = ({
+  data,
+  width,
+  comparisons,
+}: {
+  data: CalibrationData[];
+  width: number;
+  comparisons: ComparisonTrace[];
+}) => {
+  const summary = useMemo(() => summarizeData(data), [data]);
+  const comparisonSummaries = useMemo(
+    () =>
+      comparisons.map(({ name, data }) => ({
+        name,
+        summary: summarizeData(data),
+      })),
+    [comparisons]
+  );
+
+  const plotData = useMemo((): { traces: Data[]; layout: Partial<Layout> } => {
+    const bins = summary?.bins ?? [];
+    const traces: Data[] = [
+      {
+        x: [0.5, 1],
+        y: [0.5, 1],
+        name: "Perfect calibration",
+        type: "scatter",
+        mode: "lines",
+        line: { color: "#9ca3af", width: 1, dash: "dash" },
+        hoverinfo: "skip",
+      },
+      {
+        x: bins.map((b) => b.meanConfidence),
+        y: bins.map((b) => b.hitRate),
+        name: "You",
+        type: "scatter",
+        mode: "lines+markers",
+        line: { color: "#2563eb", width: 2 },
+        marker: {
+          color: "#2563eb",
+          size: bins.map((b) => 6 + 2 * Math.sqrt(b.count)),
+        },
+        error_y: {
+          type: "data",
+          symmetric: false,
+          array: bins.map((b) => b.hitRateHi - b.hitRate),
+          arrayminus: bins.map((b) => b.hitRate - b.hitRateLo),
+          color: "#93c5fd",
+        },
+        hovertemplate: bins.map(
+          (b) =>
+            `${formatProbabilityAsPercentage(b.lo)}–${formatProbabilityAsPercentage(b.hi)} confident<br>` +
+            `Stated: ${formatProbabilityAsPercentage(b.meanConfidence)}<br>` +
+            `Right: ${formatProbabilityAsPercentage(b.hitRate)} of ${b.count}<extra></extra>`
+        ),
+      },
+      ...comparisonSummaries.map(({ name, summary }, i): Data => {
+        const bins = summary?.bins ?? [];
+        return {
+          x: bins.map((b) => b.meanConfidence),
+          y: bins.map((b) => b.hitRate),
+          name,
+          type: "scatter",
+          mode: "lines+markers",
+          line: {
+            color: COMPARISON_COLORS[i % COMPARISON_COLORS.length],
+            width: 1,
+            dash: "dash",
+          },
+          hovertemplate: bins.map(
+            (b) =>
+              `${name}: ${formatProbabilityAsPercentage(b.meanConfidence)} stated, ` +
+              `${formatProbabilityAsPercentage(b.hitRate)} right of ${b.count}<extra></extra>`
+          ),
+        };
+      }),
+    ];
+
+    const layout: Partial<Layout> = {
+      xaxis: {
+        title: {
+          text: "Stated confidence",
+          font: { size: 16, weight: 700 },
+        },
+        range: [0.48, 1.02],
+        tickformat: ".0%",
+        showgrid: true,
+      },
+      yaxis: {
+        title: {
+          text: "Fraction right",
+          font: { size: 16, weight: 700 },
+        },
+        range: [0, 1.05],
+        tickformat: ".0%",
+        showgrid: true,
+      },
+      margin: { t: 40, r: 80, b: 50, l: 60 },
+      showlegend: comparisonSummaries.length > 0,
+      legend: {
+        x: 0.02,
+        y: 0.98,
+        bgcolor: "rgba(255, 255, 255, 0.8)",
+      },
+      hovermode: "closest" as const,
+      autosize: true,
+      height: 500,
+    };
+
+    return { traces, layout };
+  }, [summary, comparisonSummaries]);
 
-  // const [screenWidth, setScreenWidth] = useState(window.innerWidth);
-  // useEffect(() => {
-  //   const handleResize = () => setScreenWidth(window.innerWidth);
-  //   window.addEventListener("resize", handleResize);
-  //   return () => window.removeEventListener("resize", handleResize);
-  // }, []);
+  if (!summary) return null;
 
   return (
-    <Plot
-      data={plotData.traces}
-      layout={plotData.layout}
-      config={{
-        responsive: true,
-        displayModeBar: true,
-        displaylogo: false,
-        modeBarButtonsToRemove: ["lasso2d", "select2d"],
-      }}
-      style={{ width: `${width}px`, height: "500px" }}
-      className="border border-gray-300 my-4"
-    />
+    <>
+      <Plot
+        data={plotData.traces}
+        layout={plotData.layout}
+        config={PLOT_CONFIG}
+        style={{ width: `${width}px`, height: "500px" }}
+        className="border border-gray-300 my-4"
+      />
+      <p className="text-sm text-gray-700 text-center mb-4">
+        Brier score {summary.brierScore.toFixed(3)} (0 is perfect, 0.25 is a
+        coin flip). On average you were{" "}
+        {formatProbabilityAsPercentage(summary.meanConfidence)} confident and
+        right {formatProbabilityAsPercentage(summary.hitRate)} of the time:{" "}
+        <span className="font-semibold">
+          {Math.abs(summary.overconfidence) < 0.02
+            ? "well calibrated"
+            : `${summary.overconfidence > 0 ? "overconfident" : "underconfident"} by ${Math.round(Math.abs(summary.overconfidence) * 100)} points`}
+        </span>
+        .
+      </p>
+    </>
   );
 };
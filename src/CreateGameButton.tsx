@@ -23,9 +23,7 @@ export function CreateGameButton({
 
   const handleCreateGame = async () => {
     try {
-      const { _id: gameId, quickId } = await createGame({
-        playerId,
-      });
+      const { _id: gameId, quickId } = await createGame();
       onCreate({ id: gameId, quickId });
     } catch (error) {
       toast.error(
@@ -0,0 +1,104 @@
+import { useMutation, useQuery } from "convex/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import {
+  currentDailyStreak,
+  dailyDate,
+  GameQuickId,
+  gameQuickIdSchema,
+  PlayerId,
+} from "../convex/validation";
+import { errString } from "./lib/utils";
+import { useServerClock } from "./server-clock";
+import { TournamentStandings } from "./Tournament";
+
+/**
+ * Today's challenge: the same few questions for everyone, one attempt each,
+ * with a leaderboard for the day and a streak for coming back.
+ */
+export function DailyChallenge({
+  playerId,
+  onPlay,
+  onBack,
+}: {
+  playerId: PlayerId;
+  /** called with the player's run, to switch to it */
+  onPlay: (run: { id: Id<"games">; quickId: GameQuickId }) => void;
+  onBack: () => void;
+}) {
+  const serverClock = useServerClock();
+  const today = dailyDate(serverClock());
+  const daily = useQuery(api.tournaments.getDaily, { date: today });
+  const profile = useQuery(api.profiles.getProfile, { playerId });
+  const playDailyMutation = useMutation(api.tournaments.playDaily);
+  const [name, setName] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  const handlePlay = () => {
+    setIsStarting(true);
+    playDailyMutation({ playerName: name || profile?.name || "" })
+      .then(({ _id, quickId }) =>
+        onPlay({ id: _id, quickId: gameQuickIdSchema.parse(quickId) })
+      )
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsStarting(false));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg mx-auto">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b">
+        <h2 className="text-3xl font-bold text-primary">Daily challenge</h2>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+        >
+          Back
+        </button>
+      </div>
+      <div className="flex flex-col gap-4">
+        <p className="text-gray-700">
+          The challenge for {today} (UTC).{" "}
+          {profile && (
+            <StreakText
+              streak={currentDailyStreak(
+                profile.dailyStreak,
+                profile.lastDailyDate,
+                today
+              )}
+              best={profile.longestDailyStreak}
+            />
+          )}
+        </p>
+        <div className="flex flex-row gap-2">
+          <input
+            type="text"
+            placeholder={profile?.name || "Your name"}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-grow px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm"
+          />
+          <button
+            disabled={isStarting}
+            onClick={handlePlay}
+            className="px-4 py-2 rounded bg-green-500 text-white font-semibold hover:bg-green-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
+          >
+            Play today's challenge
+          </button>
+        </div>
+        {daily && (
+          <TournamentStandings tournamentId={daily._id} playerId={playerId} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function StreakText({ streak, best }: { streak: number; best: number }) {
+  return (
+    <>
+      Your streak: {streak} day{streak === 1 ? "" : "s"} (best {best}).
+    </>
+  );
+}
@@ -4,31 +4,51 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 import { z } from "zod";
 import { api } from "../convex/_generated/api";
-import { Doc } from "../convex/_generated/dataModel";
+import { Id } from "../convex/_generated/dataModel";
 import {
+  asDistribution,
+  asInterval,
+  asProbability,
+  CROWD_FORECASTER_LABELS,
+  CROWD_FORECASTERS,
+  defaultGuess,
   gameNumRoundsSchema,
   gameSecondsPerQuestionSchema,
+  Guess,
   LobbyGame,
+  NON_ANSWER_POLICIES,
+  NON_ANSWER_POLICY_LABELS,
+  nonAnswerPolicySchema,
   PlayerId,
-  scoreGuess,
+  SCORING_RULE_LABELS,
+  SCORING_RULES,
+  scoringRuleSchema,
   StartedGame,
   zodErrorToString,
 } from "../convex/validation";
-import { CalibrationData, CalibrationPlot } from "./CalibrationPlot";
+import { GameHistory } from "./GameHistory";
+import { GameOver } from "./GameOver";
+import {
+  BinaryGuessInput,
+  ChoiceGuessInput,
+  IntervalGuessInput,
+} from "./GuessInputs";
 import {
-  ANON_DISPLAY_NAMES,
   cn,
   errString,
   formatPlusMinusInt,
-  formatProbabilityAsOdds,
-  formatProbabilityAsPercentage,
   formatTimeRemaining,
+  getAnonDisplayNames,
+  getCrowdScores,
   getRecordEntries,
   ifEnter,
-  useNow,
 } from "./lib/utils";
-import { usePlayerId } from "./player-info";
-import { List, Map } from "immutable";
+import { useIsOnline } from "./presence";
+import { QuestionImportExport } from "./QuestionImportExport";
+import { RoundReveal } from "./RoundReveal";
+import { TeamSettings, TeamStandings } from "./Teams";
+import { TournamentStandings } from "./Tournament";
+import { useServerClock, useServerNow } from "./server-clock";
 import QRCode from "react-qr-code";
 
 interface GameLobbyProps {
@@ -40,11 +60,20 @@ interface GameLobbyProps {
 export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
   const updateSettingsMutation = useMutation(api.games.updateGameSettings);
   const startGameMutation = useMutation(api.games.startGame);
+  const isHost = game.hostPlayerId === playerId;
 
+  const numQuestions = useQuery(api.questions.countQuestions, {
+    includeTags: game.includeTags,
+    excludeTags: game.excludeTags,
+  });
   const [roundsF, setRoundsF] = useState(game.roundsRemaining.toString());
   const rounds = useMemo(
-    () => z.coerce.number().pipe(gameNumRoundsSchema).safeParse(roundsF),
-    [roundsF]
+    () =>
+      z.coerce
+        .number()
+        .pipe(gameNumRoundsSchema(numQuestions ?? Infinity))
+        .safeParse(roundsF),
+    [roundsF, numQuestions]
   );
 
   const [secondsPerQuestionF, setSecondsPerQuestionF] = useState(
@@ -99,7 +128,8 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
   }, [game.secondsPerQuestion]);
 
   const [isStartingGame, setIsStartingGame] = useState(false);
-  const canStartGame = !game.started && !isUpdatingSettings && !isStartingGame;
+  const canStartGame =
+    isHost && !game.started && !isUpdatingSettings && !isStartingGame;
   const handleStartGame = useCallback(() => {
     setIsStartingGame(true);
     startGameMutation({ gameId: game._id })
@@ -109,6 +139,7 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
   }, [game._id, startGameMutation]);
 
   const canUpdateSettings =
+    isHost &&
     rounds.success &&
     secondsPerQuestion.success &&
     !isUpdatingSettings &&
@@ -126,7 +157,11 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
     });
   }, [canUpdateSettings, handleUpdateSettings, rounds, secondsPerQuestion]);
 
-  const anonDisplayNames = useMemo(() => getAnonDisplayNames(game), [game]);
+  const anonDisplayNames = useMemo(
+    () => getAnonDisplayNames(game.players),
+    [game.players]
+  );
+  const isOnline = useIsOnline(game._id);
 
   if (!game) {
     // Still loading game details
@@ -167,6 +202,14 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
             <summary>QR</summary>
             <QRCode className="mx-auto" value={window.location.href} />
           </details>
+          <a
+            href={`#${game.quickId}/screen`}
+            target="_blank"
+            rel="noreferrer"
+            className="text-primary hover:underline"
+          >
+            Open the big screen
+          </a>
         </p>
       </div>
       <div className="mb-6">
@@ -183,14 +226,26 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
               )
               .filter(([id]) => id !== playerId)
               .map(([id, { name }]) => (
-                <div
+                <LobbyPlayer
                   key={id}
-                  className="text-gray-800 px-2 py-0 border rounded-md bg-gray-200"
-                >
-                  {name || anonDisplayNames.get(id)}
-                </div>
+                  game={game}
+                  playerId={playerId}
+                  otherPlayerId={id}
+                  displayName={name || anonDisplayNames.get(id)!}
+                  online={isOnline(id)}
+                />
               ))}
           </div>
+          {isHost ? (
+            <p className="text-sm text-gray-500 mb-2">You are the host. 👑</p>
+          ) : (
+            <p className="text-sm text-gray-500 mb-2">
+              Host:{" "}
+              {game.players[game.hostPlayerId]?.name ||
+                anonDisplayNames.get(game.hostPlayerId)}{" "}
+              👑
+            </p>
+          )}
           <EditableName game={game} playerId={playerId} />
         </div>
       </div>
@@ -207,6 +262,7 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
             id="rounds"
             type="number"
             value={roundsF}
+            disabled={!isHost}
             onChange={(e) => {
               setRoundsF(e.target.value);
             }}
@@ -231,6 +287,7 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
             id="seconds"
             type="number"
             value={secondsPerQuestionF}
+            disabled={!isHost}
             onChange={(e) => {
               setSecondsPerQuestionF(e.target.value);
             }}
@@ -243,30 +300,487 @@ export function GameLobby({ game, playerId, onLeave }: GameLobbyProps) {
             </div>
           )}
         </div>
-        <button
-          className="ml-auto px-2 py-1 rounded bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
-          disabled={!canUpdateSettings}
-          onClick={onUpdateSettingsSubmit}
-        >
-          Update
-        </button>
+
+        <div className="w-full grid grid-cols-3 gap-2 items-center">
+          <div className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1">
+            Tags
+          </div>
+          <div className="col-span-2">
+            <TagFilterEditor game={game} playerId={playerId} />
+          </div>
+          {numQuestions !== undefined && (
+            <div className="text-gray-500 text-sm col-span-3 ml-auto">
+              {numQuestions} matching questions
+            </div>
+          )}
+        </div>
+        <div className="w-full grid grid-cols-3 gap-2 items-center">
+          <label
+            htmlFor="questionSeed"
+            className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1"
+          >
+            Question order
+          </label>
+          <QuestionSeedInput game={game} playerId={playerId} />
+        </div>
+        <div className="w-full grid grid-cols-3 gap-2 items-center">
+          <label
+            htmlFor="scoringRule"
+            className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1"
+          >
+            Scoring
+          </label>
+          <ScoringRuleSelect game={game} playerId={playerId} />
+        </div>
+        <div className="w-full grid grid-cols-3 gap-2 items-center">
+          <label
+            htmlFor="revealSeconds"
+            className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1"
+          >
+            Between rounds
+          </label>
+          <RevealSecondsSelect game={game} playerId={playerId} />
+        </div>
+        <div className="w-full grid grid-cols-3 gap-2 items-center">
+          <label
+            htmlFor="speedBonus"
+            className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1"
+          >
+            Locking in early
+          </label>
+          <SpeedBonusSelect game={game} playerId={playerId} />
+        </div>
+        <div className="w-full grid grid-cols-3 gap-2 items-center">
+          <label
+            htmlFor="nonAnswers"
+            className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1"
+          >
+            Not answering
+          </label>
+          <NonAnswersSelect game={game} playerId={playerId} />
+        </div>
+        <TeamSettings
+          game={game}
+          playerId={playerId}
+          anonDisplayNames={anonDisplayNames}
+        />
+        <details className="text-sm text-gray-700">
+          <summary>Import / export questions</summary>
+          <div className="pt-2">
+            <QuestionImportExport tagFilter={game} />
+          </div>
+        </details>
+        {isHost && (
+          <button
+            className="ml-auto px-2 py-1 rounded bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
+            disabled={!canUpdateSettings}
+            onClick={onUpdateSettingsSubmit}
+          >
+            Update
+          </button>
+        )}
       </div>
 
       <div className="mt-8 text-center">
-        <button
-          disabled={!canStartGame}
-          onClick={() => {
-            handleStartGame();
-          }}
-          className="w-full px-4 py-3 rounded bg-green-500 text-white font-semibold hover:bg-green-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
-        >
-          {isUpdatingSettings ? "Updating..." : "Start Game"}
-        </button>
+        {isHost ? (
+          <button
+            disabled={!canStartGame}
+            onClick={() => {
+              handleStartGame();
+            }}
+            className="w-full px-4 py-3 rounded bg-green-500 text-white font-semibold hover:bg-green-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
+          >
+            {isUpdatingSettings ? "Updating..." : "Start Game"}
+          </button>
+        ) : (
+          <p className="text-gray-600">Waiting for the host to start...</p>
+        )}
       </div>
+
+      <GameHistory quickId={game.quickId} playerId={playerId} isHost={isHost} />
     </div>
   );
 }
 
+/** Chips that cycle each tag through neutral → included → excluded. */
+function TagFilterEditor({
+  game,
+  playerId,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+}) {
+  const isHost = game.hostPlayerId === playerId;
+  const tags = useQuery(api.questions.listTags);
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const cycleTag = useCallback(
+    (tag: string) => {
+      const includeTags = game.includeTags.filter((t) => t !== tag);
+      const excludeTags = game.excludeTags.filter((t) => t !== tag);
+      if (game.includeTags.includes(tag)) {
+        excludeTags.push(tag);
+      } else if (!game.excludeTags.includes(tag)) {
+        includeTags.push(tag);
+      }
+      setIsSubmitting(true);
+      updateSettingsMutation({
+        gameId: game._id,
+        includeTags,
+        excludeTags,
+      })
+        .catch((error) => toast.error(errString(error)))
+        .finally(() => setIsSubmitting(false));
+    },
+    [game, updateSettingsMutation]
+  );
+
+  if (tags === undefined) {
+    return (
+      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+    );
+  }
+  return (
+    <div className="flex flex-row flex-wrap gap-1">
+      {tags.map(({ tag, count }) => {
+        const state = game.includeTags.includes(tag)
+          ? "include"
+          : game.excludeTags.includes(tag)
+            ? "exclude"
+            : "neutral";
+        return (
+          <button
+            key={tag}
+            disabled={isSubmitting || !isHost}
+            onClick={() => cycleTag(tag)}
+            title={`${count} questions`}
+            className={cn(
+              "px-2 py-0 text-sm border rounded-md disabled:opacity-50",
+              state === "include" && "bg-green-200 border-green-400",
+              state === "exclude" &&
+                "bg-red-200 border-red-400 line-through text-gray-600",
+              state === "neutral" && "bg-gray-100 border-gray-300"
+            )}
+          >
+            {state === "include" ? "+" : state === "exclude" ? "−" : ""}
+            {tag}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * The seed that fixes the question order. Games with the same seed and tags
+ * ask the same questions in the same order, e.g. in rooms split up to play
+ * side by side.
+ */
+function QuestionSeedInput({
+  game,
+  playerId,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+}) {
+  const [seed, setSeed] = useState(game.questionSeed ?? "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const debouncedUpdateSeed = useMemo(
+    () =>
+      _.debounce((seed: string) => {
+        setIsSubmitting(true);
+        updateSettingsMutation({ gameId: game._id, questionSeed: seed })
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsSubmitting(false));
+      }, 500),
+    [game._id, updateSettingsMutation]
+  );
+  useEffect(() => {
+    setSeed(game.questionSeed ?? "");
+  }, [game.questionSeed]);
+  const isHost = game.hostPlayerId === playerId;
+  const changeSeed = (seed: string) => {
+    setSeed(seed);
+    debouncedUpdateSeed(seed);
+  };
+
+  return (
+    <div className="col-span-2 flex flex-col gap-1">
+      <div className="flex flex-row gap-2 items-center">
+        <input
+          id="questionSeed"
+          type="text"
+          placeholder="Random"
+          maxLength={40}
+          value={seed}
+          disabled={!isHost}
+          onChange={(e) => changeSeed(e.target.value)}
+          className="flex-grow px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100"
+        />
+        {isHost && (
+          <button
+            disabled={isSubmitting}
+            onClick={() => changeSeed(Math.random().toString(36).slice(2, 8))}
+            className="px-2 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            New seed
+          </button>
+        )}
+      </div>
+      {game.questionSeed !== null && <SeededQuestionOrder gameId={game._id} />}
+    </div>
+  );
+}
+
+function SeededQuestionOrder({ gameId }: { gameId: Id<"games"> }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const order = useQuery(
+    api.games.getSeededQuestionOrder,
+    isOpen ? { gameId } : "skip"
+  );
+  return (
+    <details
+      className="text-sm text-gray-700"
+      onToggle={(e) => setIsOpen(e.currentTarget.open)}
+    >
+      <summary>Full order (spoilers!)</summary>
+      <ol className="list-decimal pl-6">
+        {order?.map(({ _id, text }) => (
+          <li key={_id}>{text}</li>
+        ))}
+      </ol>
+    </details>
+  );
+}
+
+function ScoringRuleSelect({
+  game,
+  playerId,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+}) {
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  return (
+    <select
+      id="scoringRule"
+      value={game.scoringRule}
+      disabled={isSubmitting || game.hostPlayerId !== playerId}
+      onChange={(e) => {
+        setIsSubmitting(true);
+        updateSettingsMutation({
+          gameId: game._id,
+          scoringRule: scoringRuleSchema.parse(e.target.value),
+        })
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsSubmitting(false));
+      }}
+      className="col-span-2 px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100"
+    >
+      {SCORING_RULES.map((rule) => (
+        <option key={rule} value={rule}>
+          {SCORING_RULE_LABELS[rule]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/** Choices for `revealSeconds`; null waits for the host. */
+const REVEAL_SECONDS_OPTIONS = [0, 3, 5, 10, null];
+
+function RevealSecondsSelect({
+  game,
+  playerId,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+}) {
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  return (
+    <select
+      id="revealSeconds"
+      value={String(game.revealSeconds)}
+      disabled={isSubmitting || game.hostPlayerId !== playerId}
+      onChange={(e) => {
+        setIsSubmitting(true);
+        updateSettingsMutation({
+          gameId: game._id,
+          revealSeconds:
+            e.target.value === "null" ? null : parseInt(e.target.value),
+        })
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsSubmitting(false));
+      }}
+      className="col-span-2 px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100"
+    >
+      {REVEAL_SECONDS_OPTIONS.map((seconds) => (
+        <option key={String(seconds)} value={String(seconds)}>
+          {seconds === null
+            ? "Show results until the host continues"
+            : seconds === 0
+              ? "Go straight to the next question"
+              : `Show results for ${seconds} seconds`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+const SPEED_BONUS_OPTIONS = [0, 10, 25, 50];
+
+function SpeedBonusSelect({
+  game,
+  playerId,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+}) {
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  return (
+    <select
+      id="speedBonus"
+      value={String(game.speedBonus)}
+      disabled={isSubmitting || game.hostPlayerId !== playerId}
+      onChange={(e) => {
+        setIsSubmitting(true);
+        updateSettingsMutation({
+          gameId: game._id,
+          speedBonus: parseInt(e.target.value),
+        })
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsSubmitting(false));
+      }}
+      className="col-span-2 px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100"
+    >
+      {SPEED_BONUS_OPTIONS.map((bonus) => (
+        <option key={bonus} value={String(bonus)}>
+          {bonus === 0
+            ? "No speed bonus"
+            : `Up to +${bonus} for a quick, decent guess`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function NonAnswersSelect({
+  game,
+  playerId,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+}) {
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  return (
+    <select
+      id="nonAnswers"
+      value={game.nonAnswers}
+      disabled={isSubmitting || game.hostPlayerId !== playerId}
+      onChange={(e) => {
+        setIsSubmitting(true);
+        updateSettingsMutation({
+          gameId: game._id,
+          nonAnswers: nonAnswerPolicySchema.parse(e.target.value),
+        })
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsSubmitting(false));
+      }}
+      className="col-span-2 px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100"
+    >
+      {NON_ANSWER_POLICIES.map((policy) => (
+        <option key={policy} value={policy}>
+          {NON_ANSWER_POLICY_LABELS[policy]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function LobbyPlayer({
+  game,
+  playerId,
+  otherPlayerId,
+  displayName,
+  online,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+  otherPlayerId: PlayerId;
+  displayName: string;
+  online: boolean;
+}) {
+  const kickPlayerMutation = useMutation(api.games.kickPlayer);
+  const transferHostMutation = useMutation(api.games.transferHost);
+  const [isWorking, setIsWorking] = useState(false);
+  const run = (promise: Promise<unknown>) => {
+    setIsWorking(true);
+    promise
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsWorking(false));
+  };
+
+  return (
+    <div className="text-gray-800 px-2 py-0 border rounded-md bg-gray-200 flex flex-row items-center gap-1">
+      <PresenceDot online={online} />
+      {displayName}
+      {otherPlayerId === game.hostPlayerId && <span title="Host">👑</span>}
+      {game.hostPlayerId === playerId && (
+        <>
+          <button
+            disabled={isWorking}
+            title="Make host"
+            className="text-xs opacity-50 hover:opacity-100 disabled:opacity-25"
+            onClick={() =>
+              run(
+                transferHostMutation({
+                  gameId: game._id,
+                  newHostPlayerId: otherPlayerId,
+                })
+              )
+            }
+          >
+            👑
+          </button>
+          <button
+            disabled={isWorking}
+            title="Kick"
+            className="text-xs text-red-600 opacity-50 hover:opacity-100 disabled:opacity-25"
+            onClick={() =>
+              run(
+                kickPlayerMutation({
+                  gameId: game._id,
+                  kickedPlayerId: otherPlayerId,
+                })
+              )
+            }
+          >
+            ✕
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PresenceDot({ online }: { online: boolean }) {
+  return (
+    <span
+      title={online ? "Online" : "Offline"}
+      className={cn(
+        "inline-block w-2 h-2 rounded-full",
+        online ? "bg-green-500" : "bg-gray-400"
+      )}
+    />
+  );
+}
+
 function EditableName({
   game,
   playerId,
@@ -281,11 +795,11 @@ function EditableName({
     () =>
       _.debounce((name: string) => {
         setIsSubmitting(true);
-        updateNameMutation({ gameId: game._id, playerName: { playerId, name } })
+        updateNameMutation({ gameId: game._id, playerName: name })
           .catch((error) => toast.error(errString(error)))
           .finally(() => setIsSubmitting(false));
       }, 500),
-    [game._id, playerId, updateNameMutation]
+    [game._id, updateNameMutation]
   );
   return (
     <div className="inline-flex flex-row items-center gap-2 w-full">
@@ -322,24 +836,52 @@ export function RunningGame({
     gameId: game._id,
   });
 
-  const scores = useMemo(() => {
-    return getPlayerScores(game);
-  }, [game]);
+  const scores = useQuery(api.rounds.getScores, {
+    gameId: game._id,
+    run: game.run,
+  });
+  const answerStats = useQuery(api.rounds.getAnswerStats, {
+    gameId: game._id,
+    run: game.run,
+  });
 
-  const anonDisplayNames = useMemo(() => getAnonDisplayNames(game), [game]);
+  const anonDisplayNames = useMemo(
+    () => getAnonDisplayNames(game.players),
+    [game.players]
+  );
+  const isOnline = useIsOnline(game._id);
 
   return (
     <div className="bg-white p-1 rounded-lg shadow-xl w-full max-w-3xl mx-auto">
       <div className="flex justify-between items-center mb-6 pb-4 border-b">
         <h2 className="text-3xl font-bold text-primary">Game {game.quickId}</h2>
-        <button
-          onClick={onLeave}
-          className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
-        >
-          Leave
-        </button>
+        <div className="flex flex-row gap-2">
+          {game.hostPlayerId === playerId &&
+            game.roundsRemaining > 0 &&
+            game.tournamentId === null && (
+              <HostControls game={game} hasCurrentRound={!!currentRound} />
+            )}
+          <button
+            onClick={onLeave}
+            className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            Leave
+          </button>
+        </div>
       </div>
 
+      {game.paused && (
+        <p className="text-center text-gray-600 mb-2">
+          The host has paused the game.
+        </p>
+      )}
+
+      <TeamStandings
+        gameId={game._id}
+        run={game.run}
+        players={game.players}
+        anonDisplayNames={anonDisplayNames}
+      />
       <div className="flex flex-row gap-2 mb-2 w-full items-center justify-center mx-auto">
         {getRecordEntries(game.players)
           .sort(([idA, { name: a }], [idB, { name: b }]) =>
@@ -353,17 +895,21 @@ export function RunningGame({
                 id === playerId && "bg-blue-200 border-blue-400"
               )}
             >
-              <div className="font-bold">
+              <div className="font-bold flex flex-row items-center gap-1">
+                <PresenceDot online={isOnline(id)} />
                 {name || anonDisplayNames.get(id)}
               </div>
-              <div>{formatPlusMinusInt(scores[id] ?? 0)}</div>
+              <div>{formatPlusMinusInt(scores?.[id] ?? 0)}</div>
+              {answerStats?.[id] && <AnswerStatsLine stats={answerStats[id]} />}
             </div>
           ))}
+        <CrowdChips gameId={game._id} run={game.run} />
       </div>
 
       <div className="w-full min-h-80 border border-blue-300 bg-blue-50 rounded-md relative">
         {currentRound ? (
           <ActiveRound
+            key={currentRound._id}
             game={game}
             currentRound={currentRound}
             playerId={playerId}
@@ -372,8 +918,32 @@ export function RunningGame({
           <div className="flex justify-center items-center h-full">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
           </div>
+        ) : game.reveal ? (
+          <RoundReveal
+            game={game}
+            reveal={game.reveal}
+            scores={scores}
+            anonDisplayNames={anonDisplayNames}
+            playerId={playerId}
+          />
         ) : game.roundsRemaining === 0 ? (
-          <GameOver game={game} playerId={playerId} />
+          <GameOver
+            gameId={game._id}
+            run={game.run}
+            scoringRule={game.scoringRule}
+            players={game.players}
+            playerId={playerId}
+            isHost={game.hostPlayerId === playerId}
+          >
+            {game.tournamentId === null ? (
+              <ResetGameButton game={game} playerId={playerId} />
+            ) : (
+              <TournamentStandings
+                tournamentId={game.tournamentId}
+                playerId={playerId}
+              />
+            )}
+          </GameOver>
         ) : (
           <>{/* Prepare! */}</>
         )}
@@ -382,91 +952,122 @@ export function RunningGame({
   );
 }
 
-function GameOver({
+type AnswerStats = (typeof api.rounds.getAnswerStats._returnType)[PlayerId];
+
+function AnswerStatsLine({
+  stats: { numRounds, numAnswered, average },
+}: {
+  stats: AnswerStats;
+}) {
+  return (
+    <div className="text-xs text-gray-500">
+      {numAnswered}/{numRounds} answered
+      {average !== null && <>, avg {formatPlusMinusInt(average)}</>}
+    </div>
+  );
+}
+
+/** Ghost leaderboard entries for the synthetic crowd forecasters. */
+function CrowdChips({ gameId, run }: { gameId: Id<"games">; run: number }) {
+  const crowdForecasts = useQuery(api.rounds.getCrowdForecasts, {
+    gameId,
+    run,
+  });
+  const crowdScores = useMemo(
+    () => getCrowdScores(crowdForecasts ?? []),
+    [crowdForecasts]
+  );
+  if (!crowdForecasts || crowdForecasts.length === 0) return null;
+  return (
+    <>
+      {CROWD_FORECASTERS.map((forecaster) => (
+        <div
+          key={forecaster}
+          className="text-gray-500 italic px-2 py-0 border border-dashed rounded-md flex flex-col items-center"
+        >
+          <div>{CROWD_FORECASTER_LABELS[forecaster]}</div>
+          <div>{formatPlusMinusInt(crowdScores[forecaster])}</div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function HostControls({
   game,
-  playerId,
+  hasCurrentRound,
 }: {
   game: StartedGame;
-  playerId: PlayerId;
+  hasCurrentRound: boolean;
 }) {
+  const pauseGameMutation = useMutation(api.games.pauseGame);
+  const resumeGameMutation = useMutation(api.games.resumeGame);
+  const skipQuestionMutation = useMutation(api.games.skipQuestion);
   const [isWorking, setIsWorking] = useState(false);
-  const resetGameMutation = useMutation(api.games.resetGame);
-  const roundsByScoreImpactDesc = useMemo(() => {
-    return List(game.finishedRounds).sortBy(
-      (r) => -Math.abs(scoreGuess(r.guesses[playerId] ?? 0.5, r.answer))
-    );
-  }, [game.finishedRounds, playerId]);
-
-  const container = useRef<HTMLDivElement>(null);
-  const [containerWidth, setContainerWidth] = useState(600);
-  useEffect(() => {
-    const resizeObserver = new ResizeObserver((entries) => {
-      for (const entry of entries) {
-        setContainerWidth(entry.contentRect.width);
-      }
-    });
-
-    if (container.current) {
-      resizeObserver.observe(container.current);
-    }
-
-    return () => {
-      resizeObserver.disconnect();
-    };
-  }, [container]);
-
+  const run = (mutation: Promise<unknown>) => {
+    setIsWorking(true);
+    mutation
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsWorking(false));
+  };
   return (
-    <div
-      className="flex flex-col justify-center items-center h-full w-full"
-      ref={container}
-    >
-      <h2 className="text-2xl font-bold text-gray-800">Game Over!</h2>
-      <ScorePlot game={game} playerId={playerId} width={containerWidth} />
-      <table className="w-full border-collapse border border-gray-300">
-        <thead>
-          <tr>
-            <th className="border border-gray-300">Question</th>
-            <th className="border border-gray-300">Right</th>
-            <th className="border border-gray-300">Wrong</th>
-            <th className="border border-gray-300">Your P(Right)</th>
-            <th className="border border-gray-300">Score</th>
-          </tr>
-        </thead>
-        <tbody>
-          {roundsByScoreImpactDesc.map((r) => (
-            <tr key={r.question.text}>
-              <td className="border border-gray-300">{r.question.text}</td>
-              <td className="border border-gray-300">
-                {r.answer ? r.question.right : r.question.left}
-              </td>
-              <td className="border border-gray-300">
-                {r.answer ? r.question.left : r.question.right}
-              </td>
-              <td className="border border-gray-300">
-                {formatProbabilityAsPercentage(r.guesses[playerId] ?? 0.5)}
-              </td>
-              <td className="border border-gray-300">
-                {formatPlusMinusInt(
-                  Math.round(scoreGuess(r.guesses[playerId] ?? 0.5, r.answer))
-                )}
-              </td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
+    <>
+      {hasCurrentRound && (
+        <button
+          disabled={isWorking}
+          onClick={() => {
+            if (!window.confirm("Throw out this question without scoring it?"))
+              return;
+            run(skipQuestionMutation({ gameId: game._id }));
+          }}
+          className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          Skip question
+        </button>
+      )}
       <button
         disabled={isWorking}
-        onClick={() => {
-          setIsWorking(true);
-          resetGameMutation({ gameId: game._id })
-            .catch((error) => toast.error(errString(error)))
-            .finally(() => setIsWorking(false));
-        }}
-        className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+        onClick={() =>
+          run(
+            game.paused
+              ? resumeGameMutation({ gameId: game._id })
+              : pauseGameMutation({ gameId: game._id })
+          )
+        }
+        className="px-4 py-2 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
       >
-        {isWorking ? "Resetting..." : "Reset Game"}
+        {game.paused ? "Resume" : "Pause"}
       </button>
-    </div>
+    </>
+  );
+}
+
+function ResetGameButton({
+  game,
+  playerId,
+}: {
+  game: StartedGame;
+  playerId: PlayerId;
+}) {
+  const [isWorking, setIsWorking] = useState(false);
+  const resetGameMutation = useMutation(api.games.resetGame);
+  return game.hostPlayerId === playerId ? (
+    <button
+      disabled={isWorking}
+      onClick={() => {
+        setIsWorking(true);
+        resetGameMutation({ gameId: game._id })
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsWorking(false));
+      }}
+      className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+    >
+      {isWorking ? "Resetting..." : "Reset Game"}
+    </button>
+  ) : (
+    <p className="mt-4 text-gray-600">
+      Waiting for the host to start a new game...
+    </p>
   );
 }
 
@@ -476,186 +1077,140 @@ function ActiveRound({
   playerId,
 }: {
   game: StartedGame;
-  currentRound: Doc<"currentRounds"> & { serverMsFetchedAt: number };
+  currentRound: Exclude<
+    Awaited<typeof api.games.getCurrentRound._returnType>,
+    null
+  >;
   playerId: PlayerId;
 }) {
-  const endsAtClientMs = useMemo(
-    () => currentRound.endsAtMs + (Date.now() - currentRound.serverMsFetchedAt),
-    [currentRound.endsAtMs, currentRound.serverMsFetchedAt]
-  );
+  const serverClock = useServerClock();
+  const isPaused = currentRound.pausedWithMsLeft !== null;
+  const isLockedIn = currentRound.myLockedIn;
   const setPlayerGuessMutation = useMutation(api.games.setPlayerGuess);
+  const lockInGuessMutation = useMutation(api.games.lockInGuess);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const debouncedSetGuess = useMemo(
     () =>
       _.throttle((...args: Parameters<typeof setPlayerGuessMutation>) => {
+        // The server would reject it anyway.
+        if (isPaused || isLockedIn || serverClock() > currentRound.endsAtMs)
+          return;
         setIsSubmitting(true);
         setPlayerGuessMutation(...args)
           .catch((error) => toast.error(errString(error)))
           .finally(() => setIsSubmitting(false));
       }, 200),
-    [setPlayerGuessMutation]
+    [
+      setPlayerGuessMutation,
+      isPaused,
+      isLockedIn,
+      serverClock,
+      currentRound.endsAtMs,
+    ]
   );
 
-  const [playerGuess, setPlayerGuess] = useState(0.5);
+  const [startingGuess] = useState<Guess>(
+    () => currentRound.myGuess ?? defaultGuess(currentRound.question)
+  );
+  const [playerGuess, setPlayerGuess] = useState<Guess>(startingGuess);
+  // The server already has the starting guess. Sending it back before the
+  // player has touched anything would only make it look like an answer.
+  const isUntouched = useRef(true);
   useEffect(() => {
+    if (isUntouched.current && playerGuess === startingGuess) return;
+    isUntouched.current = false;
     debouncedSetGuess({
       gameId: game._id,
-      playerId,
       questionText: currentRound.question.text,
       guess: playerGuess,
     });
   }, [
     playerGuess,
+    startingGuess,
     debouncedSetGuess,
     game._id,
     playerId,
     currentRound.question.text,
   ]);
 
-  const nudgeGuess = useCallback(
-    (dir: "up" | "down", strength: "weak" | "strong") => {
-      const oddsFactor = strength === "weak" ? Math.pow(2, 1 / 3) : 2;
-      const odds = playerGuess / (1 - playerGuess);
-      const newOdds = odds * (dir === "up" ? oddsFactor : 1 / oddsFactor);
-      setPlayerGuess(newOdds / (1 + newOdds));
-    },
-    [playerGuess]
-  );
-
-  const now = useNow();
+  const now = useServerNow();
+  const isClosed = isPaused || now > currentRound.endsAtMs;
+  const inputProps = {
+    scoringRule: game.scoringRule,
+    disabled: isClosed || isLockedIn,
+    isSubmitting,
+  };
+  const { question } = currentRound;
 
-  // adjust the guess when the player hits the left/right arrow keys
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "ArrowLeft") {
-        nudgeGuess("down", e.shiftKey ? "strong" : "weak");
-      }
-      if (e.key === "ArrowRight") {
-        nudgeGuess("up", e.shiftKey ? "strong" : "weak");
-      }
-    };
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [nudgeGuess]);
+  const handleLockIn = useCallback(() => {
+    // Anything still queued would arrive after the lock and be rejected.
+    debouncedSetGuess.cancel();
+    setIsSubmitting(true);
+    lockInGuessMutation({
+      gameId: game._id,
+      questionText: currentRound.question.text,
+      guess: playerGuess,
+    })
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsSubmitting(false));
+  }, [
+    debouncedSetGuess,
+    lockInGuessMutation,
+    game._id,
+    currentRound.question.text,
+    playerGuess,
+  ]);
 
   return (
     <div className="flex flex-col items-center p-2">
       <h3 className="text-xl font-mono font-semibold text-blue-700 mb-2">
-        {formatTimeRemaining(now, endsAtClientMs)}
+        {currentRound.pausedWithMsLeft !== null
+          ? `Paused at ${formatTimeRemaining(0, currentRound.pausedWithMsLeft)}`
+          : formatTimeRemaining(now, currentRound.endsAtMs)}
       </h3>
+      <p className="text-sm text-gray-500 mb-1">
+        {currentRound.numMoved} of {currentRound.numGuessers} players have moved
+        their slider, {currentRound.numLockedIn} locked in
+      </p>
       <p className="text-lg text-gray-800 text-center">
         {currentRound.question.text}
       </p>
+      <button
+        disabled={isClosed || isLockedIn || isSubmitting}
+        onClick={handleLockIn}
+        className="mt-2 px-4 py-2 bg-blue-500 text-white font-semibold rounded hover:bg-blue-600 disabled:opacity-50"
+      >
+        {isLockedIn
+          ? "Locked in"
+          : game.speedBonus > 0
+            ? `Lock in (up to +${game.speedBonus} for speed)`
+            : "Lock in"}
+      </button>
 
       <div className="flex flex-col items-center w-full absolute bottom-0 p-2">
-        <div className="grid grid-cols-3 gap-2 w-full mb-4 text-xl font-bold items-center">
-          <div className="col-span-1 text-red-500 text-right flex items-center justify-end">
-            {currentRound.question.left}
-          </div>
-          <div className="col-span-1"></div>
-          <div className="col-span-1 text-green-500 text-left flex items-center">
-            {currentRound.question.right}
-          </div>
-        </div>
-
-        <div className="w-full flex flex-row items-center justify-center gap-2 h-20">
-          <button
-            className="border rounded-md px-2 h-full w-20 bg-red-500 font-bold"
-            onClick={() => nudgeGuess("down", "strong")}
-          >
-            --
-          </button>
-          <button
-            className="border rounded-md px-2 h-full w-20 bg-red-300 font-bold"
-            onClick={() => nudgeGuess("down", "weak")}
-          >
-            -
-          </button>
-          <div className="flex-grow flex flex-col items-center justify-center">
-            <div className="text-center relative">
-              {formatProbabilityAsOdds(playerGuess)}
-              {isSubmitting && (
-                <div className="absolute top-0 left-0 w-full h-full flex justify-center items-center">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-                </div>
-              )}
-            </div>
-            <div className="text-sm text-gray-500">
-              {formatPlusMinusInt(Math.round(scoreGuess(playerGuess, false)))} /{" "}
-              {formatPlusMinusInt(Math.round(scoreGuess(playerGuess, true)))}
-            </div>
-          </div>
-          <button
-            className="border rounded-md px-2 h-full w-20 bg-green-300 font-bold"
-            onClick={() => nudgeGuess("up", "weak")}
-          >
-            +
-          </button>
-          <button
-            className="border rounded-md px-2 h-full w-20 bg-green-500 font-bold"
-            onClick={() => nudgeGuess("up", "strong")}
-          >
-            ++
-          </button>
-        </div>
-        <div className="flex flex-row items-center justify-center w-full gap-2">
-          <input
-            className="flex-grow w-full"
-            type="range"
-            value={playerGuess}
-            min={0}
-            max={1}
-            step={0.001}
-            onChange={(e) => {
-              setPlayerGuess(parseFloat(e.target.value));
-            }}
+        {question.kind === "multipleChoice" ? (
+          <ChoiceGuessInput
+            question={question}
+            guess={asDistribution(playerGuess)}
+            setGuess={setPlayerGuess}
+            {...inputProps}
           />
-        </div>
+        ) : question.kind === "numeric" ? (
+          <IntervalGuessInput
+            question={question}
+            guess={asInterval(playerGuess)}
+            setGuess={setPlayerGuess}
+            {...inputProps}
+          />
+        ) : (
+          <BinaryGuessInput
+            question={question}
+            guess={asProbability(playerGuess)}
+            setGuess={setPlayerGuess}
+            {...inputProps}
+          />
+        )}
       </div>
     </div>
   );
 }
-
-function ScorePlot({
-  game,
-  playerId,
-  width,
-}: {
-  game: Doc<"games">;
-  playerId: PlayerId;
-  width: number;
-}) {
-  const data: CalibrationData[] = useMemo(() => {
-    return game.finishedRounds
-      .map((r) => ({
-        prob: r.guesses[playerId],
-        question: { ...r.question, answer: r.answer },
-      }))
-      .filter((r) => r.prob !== undefined);
-  }, [game, playerId]);
-  useEffect(() => {
-    console.log(data);
-  }, [data]);
-  return <CalibrationPlot data={data} width={width} />;
-}
-
-function getPlayerScores(game: Doc<"games">): Record<PlayerId, number> {
-  const res: Record<PlayerId, number> = {};
-  for (const round of game.finishedRounds) {
-    for (const [playerId, guess] of getRecordEntries(round.guesses)) {
-      res[playerId] ??= 0;
-      res[playerId] += scoreGuess(guess, round.answer);
-    }
-  }
-  return res;
-}
-
-function getAnonDisplayNames(game: Doc<"games">): Map<PlayerId, string> {
-  const ids = List(getRecordEntries(game.players).map(([id]) => id)).sort();
-  return Map(
-    ids.map((id, i) => [
-      id,
-      ANON_DISPLAY_NAMES.get(i % ANON_DISPLAY_NAMES.size)!,
-    ])
-  );
-}
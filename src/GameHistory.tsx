@@ -0,0 +1,91 @@
+import { useQuery } from "convex/react";
+import { useState } from "react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import {
+  GameQuickId,
+  PlayerId,
+  SCORING_RULE_LABELS,
+} from "../convex/validation";
+import { GameOver } from "./GameOver";
+import { cn, formatPlusMinusInt, getRecordEntries } from "./lib/utils";
+
+export function GameHistory({
+  quickId,
+  playerId,
+  isHost,
+}: {
+  quickId: GameQuickId;
+  playerId: PlayerId;
+  isHost: boolean;
+}) {
+  const sessions = useQuery(api.sessions.listSessions, { quickId });
+  const [openSessionId, setOpenSessionId] = useState<Id<"gameSessions"> | null>(
+    null
+  );
+
+  if (!sessions || sessions.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-xl font-semibold text-gray-700 mb-2">
+        Past games ({sessions.length})
+      </h3>
+      <ul className="flex flex-col gap-2">
+        {sessions.map((session) => {
+          const standings = getRecordEntries(session.finalScores).sort(
+            ([, a], [, b]) => b - a
+          );
+          const isOpen = session._id === openSessionId;
+          return (
+            <li key={session._id} className="border rounded-md p-2">
+              <div className="flex flex-row items-center gap-2">
+                <div className="flex-grow">
+                  <div className="text-gray-800">
+                    {new Date(session._creationTime).toLocaleString()}
+                    {" · "}
+                    {session.numRounds} rounds
+                    {" · "}
+                    {SCORING_RULE_LABELS[session.scoringRule]}
+                    {session.questionSeed !== null &&
+                      ` · seed "${session.questionSeed}"`}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {standings.map(([id, score], i) => (
+                      <span
+                        key={id}
+                        className={cn(id === playerId && "font-bold")}
+                      >
+                        {i > 0 && ", "}
+                        {session.players[id]?.name || "Anonymous"}{" "}
+                        {formatPlusMinusInt(score)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  onClick={() => setOpenSessionId(isOpen ? null : session._id)}
+                  className="px-2 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                >
+                  {isOpen ? "Hide" : "Results"}
+                </button>
+              </div>
+              {isOpen && (
+                <div className="mt-2">
+                  <GameOver
+                    gameId={session.gameId}
+                    run={session.run}
+                    scoringRule={session.scoringRule}
+                    players={session.players}
+                    playerId={playerId}
+                    isHost={isHost}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
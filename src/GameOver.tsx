@@ -0,0 +1,410 @@
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { List } from "immutable";
+import { ReactNode, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import {
+  CROWD_FORECASTER_LABELS,
+  CROWD_FORECASTERS,
+  isBinaryQuestion,
+  PlayerId,
+  probabilityOnAnswer,
+  ScoringRule,
+} from "../convex/validation";
+import {
+  CalibrationData,
+  CalibrationPlot,
+  ComparisonTrace,
+} from "./CalibrationPlot";
+import {
+  cn,
+  errString,
+  formatAnswer,
+  formatGuess,
+  formatPlusMinusInt,
+  formatProbabilityAsPercentage,
+  getAnonDisplayNames,
+  getRecordEntries,
+  useElementWidth,
+} from "./lib/utils";
+import { TeamStandings } from "./Teams";
+
+const ROUND_SUMMARIES_PAGE_SIZE = 10;
+
+type PlayerRound = (typeof api.rounds.getPlayerRounds._returnType)[number];
+
+export function GameOver({
+  gameId,
+  run,
+  scoringRule,
+  players,
+  playerId,
+  isHost,
+  children,
+}: {
+  gameId: Id<"games">;
+  run: number;
+  scoringRule: ScoringRule;
+  players: Doc<"games">["players"];
+  playerId: PlayerId;
+  /** whether the viewer may settle disputes */
+  isHost: boolean;
+  /** shown under the results, e.g. the host's Reset button */
+  children?: ReactNode;
+}) {
+  const playerRounds = useQuery(api.rounds.getPlayerRounds, {
+    gameId,
+    run,
+    playerId,
+  });
+  const roundsByScoreImpactDesc = useMemo(() => {
+    return List(playerRounds ?? []).sortBy((r) => -Math.abs(r.score));
+  }, [playerRounds]);
+
+  const container = useRef<HTMLDivElement>(null);
+  const containerWidth = useElementWidth(container);
+
+  return (
+    <div
+      className="flex flex-col justify-center items-center h-full w-full"
+      ref={container}
+    >
+      <h2 className="text-2xl font-bold text-gray-800">Game Over!</h2>
+      <Standings
+        gameId={gameId}
+        run={run}
+        players={players}
+        playerId={playerId}
+      />
+      {playerRounds === undefined ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <ScorePlot
+            gameId={gameId}
+            run={run}
+            playerRounds={playerRounds}
+            scoringRule={scoringRule}
+            width={containerWidth}
+          />
+          <table className="w-full border-collapse border border-gray-300">
+            <thead>
+              <tr>
+                <th className="border border-gray-300">Question</th>
+                <th className="border border-gray-300">Answer</th>
+                <th className="border border-gray-300">Your guess</th>
+                <th className="border border-gray-300">Score</th>
+                <th className="border border-gray-300"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roundsByScoreImpactDesc.map((r) => (
+                <tr
+                  key={r.question.text}
+                  className={cn(r.voided && "line-through text-gray-400")}
+                >
+                  <td className="border border-gray-300">{r.question.text}</td>
+                  <td className="border border-gray-300">
+                    {formatAnswer(r.question, r.answer)}
+                  </td>
+                  <td className="border border-gray-300">
+                    {r.guess === null ? (
+                      <span className="text-gray-400">absent</span>
+                    ) : r.answered ? (
+                      formatGuess(r.question, r.guess)
+                    ) : (
+                      <span className="text-gray-400">no answer</span>
+                    )}
+                  </td>
+                  <td className="border border-gray-300">
+                    {formatPlusMinusInt(Math.round(r.score))}
+                  </td>
+                  <td className="border border-gray-300">
+                    {!r.voided && <FlagRoundButton roundId={r.roundId} />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+      <Disputes gameId={gameId} run={run} isHost={isHost} />
+      <details className="w-full mt-2 text-sm text-gray-700">
+        <summary>How everyone did, round by round</summary>
+        <RoundSummaries gameId={gameId} run={run} />
+      </details>
+      {children}
+    </div>
+  );
+}
+
+function RoundSummaries({ gameId, run }: { gameId: Id<"games">; run: number }) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.rounds.listRoundSummaries,
+    { gameId, run },
+    { initialNumItems: ROUND_SUMMARIES_PAGE_SIZE }
+  );
+  return (
+    <div className="flex flex-col gap-1 pt-2">
+      {results.map((round) => {
+        const crowdRight = probabilityOnAnswer(
+          round.question,
+          round.meanGuess,
+          round.answer
+        );
+        return (
+          <div key={round._id} className="border rounded-md p-2">
+            <div
+              className={cn(
+                "text-gray-800",
+                round.voided && "line-through text-gray-400"
+              )}
+            >
+              {round.index + 1}. {round.question.text}
+            </div>
+            <div>
+              <span className="text-green-600">
+                {formatAnswer(round.question, round.answer)}
+              </span>
+              {" · "}
+              {crowdRight === null
+                ? `crowd's average interval was ${formatGuess(round.question, round.meanGuess)}`
+                : `crowd gave it ${formatProbabilityAsPercentage(crowdRight)}`}{" "}
+              across {round.numGuesses} guesses
+            </div>
+          </div>
+        );
+      })}
+      {status === "CanLoadMore" && (
+        <button
+          onClick={() => loadMore(ROUND_SUMMARIES_PAGE_SIZE)}
+          className="px-2 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Final team totals, if any, and every player's individual total. */
+function Standings({
+  gameId,
+  run,
+  players,
+  playerId,
+}: {
+  gameId: Id<"games">;
+  run: number;
+  players: Doc<"games">["players"];
+  playerId: PlayerId;
+}) {
+  const scores = useQuery(api.rounds.getScores, { gameId, run });
+  const answerStats = useQuery(api.rounds.getAnswerStats, { gameId, run });
+  const anonDisplayNames = useMemo(
+    () => getAnonDisplayNames(players),
+    [players]
+  );
+  return (
+    <div className="w-full my-2">
+      <TeamStandings
+        gameId={gameId}
+        run={run}
+        players={players}
+        anonDisplayNames={anonDisplayNames}
+      />
+      <table className="mx-auto text-sm">
+        <tbody>
+          {getRecordEntries(scores ?? {})
+            .sort(([, a], [, b]) => b - a)
+            .map(([id, score]) => (
+              <tr key={id} className={cn(id === playerId && "font-bold")}>
+                <td className="pr-4">
+                  {players[id]?.name || anonDisplayNames.get(id) || "Anonymous"}
+                  {players[id]?.team && (
+                    <span className="text-gray-500"> ({players[id].team})</span>
+                  )}
+                </td>
+                <td className="text-right">{formatPlusMinusInt(score)}</td>
+                <AnswerStatsCells stats={answerStats?.[id]} />
+              </tr>
+            ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function AnswerStatsCells({
+  stats,
+}: {
+  stats: (typeof api.rounds.getAnswerStats._returnType)[PlayerId] | undefined;
+}) {
+  return (
+    <>
+      <td className="pl-4 text-right text-gray-500">
+        {stats && `${stats.numAnswered}/${stats.numRounds} answered`}
+      </td>
+      <td className="pl-4 text-right text-gray-500">
+        {stats &&
+          stats.average !== null &&
+          `avg ${formatPlusMinusInt(stats.average)}`}
+      </td>
+    </>
+  );
+}
+
+function FlagRoundButton({ roundId }: { roundId: Id<"rounds"> }) {
+  const flagRoundMutation = useMutation(api.disputes.flagRound);
+  const [isFlagging, setIsFlagging] = useState(false);
+  return (
+    <button
+      disabled={isFlagging}
+      title="Dispute this answer"
+      onClick={() => {
+        const reason = window.prompt("What's wrong with this answer?");
+        if (reason === null) return;
+        setIsFlagging(true);
+        flagRoundMutation({ roundId, reason })
+          .then(() => toast.success("Flagged for the host to review."))
+          .catch((error) => toast.error(errString(error)))
+          .finally(() => setIsFlagging(false));
+      }}
+      className="px-1 text-xs rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50"
+    >
+      Flag
+    </button>
+  );
+}
+
+const RESOLUTION_LABELS = {
+  voided: "Voided",
+  flipped: "Answer flipped",
+  dismissed: "Dismissed",
+} as const;
+
+function Disputes({
+  gameId,
+  run,
+  isHost,
+}: {
+  gameId: Id<"games">;
+  run: number;
+  isHost: boolean;
+}) {
+  const disputes = useQuery(api.disputes.listRunDisputes, { gameId, run });
+  const resolveDisputeMutation = useMutation(api.disputes.resolveDispute);
+  const [isResolving, setIsResolving] = useState(false);
+  if (!disputes || disputes.length === 0) return null;
+  return (
+    <div className="w-full mt-2 text-sm">
+      <h3 className="font-semibold text-gray-700">Disputes</h3>
+      <ul className="flex flex-col gap-1">
+        {disputes.map((dispute) => (
+          <li
+            key={dispute._id}
+            className="border rounded-md p-2 flex flex-row items-center gap-2"
+          >
+            <div className="flex-grow">
+              <div className="text-gray-800">{dispute.round.question.text}</div>
+              {dispute.reason && (
+                <div className="text-gray-600">“{dispute.reason}”</div>
+              )}
+            </div>
+            {dispute.resolution !== null ? (
+              <span className="text-gray-500">
+                {RESOLUTION_LABELS[dispute.resolution]}
+              </span>
+            ) : isHost ? (
+              (isBinaryQuestion(dispute.round.question)
+                ? (["voided", "flipped", "dismissed"] as const)
+                : (["voided", "dismissed"] as const)
+              ).map((resolution) => (
+                <button
+                  key={resolution}
+                  disabled={isResolving}
+                  onClick={() => {
+                    setIsResolving(true);
+                    resolveDisputeMutation({
+                      disputeId: dispute._id,
+                      resolution,
+                    })
+                      .catch((error) => toast.error(errString(error)))
+                      .finally(() => setIsResolving(false));
+                  }}
+                  className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50"
+                >
+                  {resolution === "voided"
+                    ? "Void"
+                    : resolution === "flipped"
+                      ? "Flip answer"
+                      : "Dismiss"}
+                </button>
+              ))
+            ) : (
+              <span className="text-gray-500">Awaiting the host</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ScorePlot({
+  gameId,
+  run,
+  playerRounds,
+  scoringRule,
+  width,
+}: {
+  gameId: Id<"games">;
+  run: number;
+  playerRounds: PlayerRound[];
+  scoringRule: ScoringRule;
+  width: number;
+}) {
+  const crowdForecasts = useQuery(api.rounds.getCrowdForecasts, {
+    gameId,
+    run,
+  });
+  // Only the rounds the player guessed on, so the lines share an x-axis.
+  const comparisons: ComparisonTrace[] = useMemo(() => {
+    const guessedRoundIds = new Set(
+      playerRounds.filter((r) => r.answered && !r.voided).map((r) => r.roundId)
+    );
+    const rounds = (crowdForecasts ?? []).filter((r) =>
+      guessedRoundIds.has(r.roundId)
+    );
+    return CROWD_FORECASTERS.map((forecaster) => ({
+      name: CROWD_FORECASTER_LABELS[forecaster],
+      data: rounds.map((r) => ({
+        prob: r.forecasts[forecaster],
+        question: { ...r.question, answer: r.answer },
+      })),
+    }));
+  }, [crowdForecasts, playerRounds]);
+  const data: CalibrationData[] = useMemo(() => {
+    return playerRounds.flatMap(
+      ({ question, answer, guess, answered, voided, score }) =>
+        typeof guess !== "number" ||
+        typeof answer !== "boolean" ||
+        !isBinaryQuestion(question) ||
+        !answered ||
+        voided
+          ? []
+          : [{ prob: guess, question: { ...question, answer }, score }]
+    );
+  }, [playerRounds]);
+  return (
+    <CalibrationPlot
+      data={data}
+      scoringRule={scoringRule}
+      width={width}
+      comparisons={comparisons}
+    />
+  );
+}
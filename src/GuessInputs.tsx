@@ -0,0 +1,256 @@
+import { useCallback, useEffect } from "react";
+import {
+  BinaryQuestion,
+  Interval,
+  MultipleChoiceQuestion,
+  NumericQuestion,
+  scoreBinaryGuess,
+  scoreDistribution,
+  scoreInterval,
+  ScoringRule,
+} from "../convex/validation";
+import {
+  formatPlusMinusInt,
+  formatProbabilityAsOdds,
+  formatProbabilityAsPercentage,
+  formatQuantity,
+} from "./lib/utils";
+
+type GuessInputProps<Q, G> = {
+  question: Q;
+  guess: G;
+  setGuess: (guess: G) => void;
+  scoringRule: ScoringRule;
+  disabled: boolean;
+  isSubmitting: boolean;
+};
+
+function SubmittingSpinner() {
+  return (
+    <div className="absolute top-0 left-0 w-full h-full flex justify-center items-center">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+}
+
+export function BinaryGuessInput({
+  question,
+  guess,
+  setGuess,
+  scoringRule,
+  disabled,
+  isSubmitting,
+}: GuessInputProps<BinaryQuestion, number>) {
+  const nudgeGuess = useCallback(
+    (dir: "up" | "down", strength: "weak" | "strong") => {
+      const oddsFactor = strength === "weak" ? Math.pow(2, 1 / 3) : 2;
+      const odds = guess / (1 - guess);
+      const newOdds = odds * (dir === "up" ? oddsFactor : 1 / oddsFactor);
+      setGuess(newOdds / (1 + newOdds));
+    },
+    [guess, setGuess]
+  );
+
+  // adjust the guess when the player hits the left/right arrow keys
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (disabled) return;
+      if (e.key === "ArrowLeft") {
+        nudgeGuess("down", e.shiftKey ? "strong" : "weak");
+      }
+      if (e.key === "ArrowRight") {
+        nudgeGuess("up", e.shiftKey ? "strong" : "weak");
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [nudgeGuess, disabled]);
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-2 w-full mb-4 text-xl font-bold items-center">
+        <div className="col-span-1 text-red-500 text-right flex items-center justify-end">
+          {question.left}
+        </div>
+        <div className="col-span-1"></div>
+        <div className="col-span-1 text-green-500 text-left flex items-center">
+          {question.right}
+        </div>
+      </div>
+
+      <div className="w-full flex flex-row items-center justify-center gap-2 h-20">
+        <button
+          className="border rounded-md px-2 h-full w-20 bg-red-500 font-bold disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => nudgeGuess("down", "strong")}
+        >
+          --
+        </button>
+        <button
+          className="border rounded-md px-2 h-full w-20 bg-red-300 font-bold disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => nudgeGuess("down", "weak")}
+        >
+          -
+        </button>
+        <div className="flex-grow flex flex-col items-center justify-center">
+          <div className="text-center relative">
+            {formatProbabilityAsOdds(guess)}
+            {isSubmitting && <SubmittingSpinner />}
+          </div>
+          <div className="text-sm text-gray-500">
+            {formatPlusMinusInt(
+              Math.round(scoreBinaryGuess(guess, false, scoringRule))
+            )}{" "}
+            /{" "}
+            {formatPlusMinusInt(
+              Math.round(scoreBinaryGuess(guess, true, scoringRule))
+            )}
+          </div>
+        </div>
+        <button
+          className="border rounded-md px-2 h-full w-20 bg-green-300 font-bold disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => nudgeGuess("up", "weak")}
+        >
+          +
+        </button>
+        <button
+          className="border rounded-md px-2 h-full w-20 bg-green-500 font-bold disabled:opacity-50"
+          disabled={disabled}
+          onClick={() => nudgeGuess("up", "strong")}
+        >
+          ++
+        </button>
+      </div>
+      <div className="flex flex-row items-center justify-center w-full gap-2">
+        <input
+          className="flex-grow w-full"
+          type="range"
+          value={guess}
+          min={0}
+          max={1}
+          step={0.001}
+          disabled={disabled}
+          onChange={(e) => {
+            setGuess(parseFloat(e.target.value));
+          }}
+        />
+      </div>
+    </>
+  );
+}
+
+/**
+ * Sets option `i` to `prob` and scales the others to take up the rest, so the
+ * distribution still sums to 1.
+ */
+function setOptionProbability(
+  probs: number[],
+  i: number,
+  prob: number
+): number[] {
+  const others = probs.reduce((sum, p, j) => (j === i ? sum : sum + p), 0);
+  const rest = 1 - prob;
+  return probs.map((p, j) =>
+    j === i
+      ? prob
+      : others > 0
+        ? (p * rest) / others
+        : rest / (probs.length - 1)
+  );
+}
+
+export function ChoiceGuessInput({
+  question,
+  guess,
+  setGuess,
+  scoringRule,
+  disabled,
+  isSubmitting,
+}: GuessInputProps<MultipleChoiceQuestion, number[]>) {
+  return (
+    <div className="relative w-full flex flex-col gap-1">
+      {question.options.map((option, i) => (
+        <div key={option} className="flex flex-row items-center gap-2">
+          <div className="w-1/4 text-right font-bold truncate">{option}</div>
+          <input
+            className="flex-grow"
+            type="range"
+            value={guess[i]}
+            min={0}
+            max={1}
+            step={0.001}
+            disabled={disabled}
+            onChange={(e) =>
+              setGuess(
+                setOptionProbability(guess, i, parseFloat(e.target.value))
+              )
+            }
+          />
+          <div className="w-16 text-right font-mono">
+            {formatProbabilityAsPercentage(guess[i])}
+          </div>
+          <div className="w-12 text-right text-sm text-gray-500">
+            {formatPlusMinusInt(
+              Math.round(scoreDistribution(guess, i, scoringRule))
+            )}
+          </div>
+        </div>
+      ))}
+      {isSubmitting && <SubmittingSpinner />}
+    </div>
+  );
+}
+
+export function IntervalGuessInput({
+  question,
+  guess,
+  setGuess,
+  disabled,
+  isSubmitting,
+}: GuessInputProps<NumericQuestion, Interval>) {
+  const range = question.max - question.min;
+  const step = range / 1000;
+  return (
+    <div className="relative w-full flex flex-col items-center gap-1">
+      <div className="text-xl font-bold">
+        90% sure it's {formatQuantity(guess.lo, "")} to{" "}
+        {formatQuantity(guess.hi, question.unit)}
+      </div>
+      <div className="text-sm text-gray-500">
+        {formatPlusMinusInt(Math.round(scoreInterval(guess, guess.lo, range)))}{" "}
+        if it's inside, less the further outside it is
+      </div>
+      {(["lo", "hi"] as const).map((end) => (
+        <div key={end} className="w-full flex flex-row items-center gap-2">
+          <div className="w-12 text-right text-sm text-gray-600">
+            {end === "lo" ? "Low" : "High"}
+          </div>
+          <input
+            className="flex-grow"
+            type="range"
+            value={guess[end]}
+            min={question.min}
+            max={question.max}
+            step={step}
+            disabled={disabled}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              setGuess(
+                end === "lo"
+                  ? { lo: value, hi: Math.max(value, guess.hi) }
+                  : { lo: Math.min(value, guess.lo), hi: value }
+              );
+            }}
+          />
+        </div>
+      ))}
+      <div className="w-full flex flex-row justify-between text-sm text-gray-500 pl-14">
+        <span>{formatQuantity(question.min, question.unit)}</span>
+        <span>{formatQuantity(question.max, question.unit)}</span>
+      </div>
+      {isSubmitting && <SubmittingSpinner />}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useQuery } from "convex/react";
+import { useMemo, useRef } from "react";
+import { api } from "../convex/_generated/api";
+import {
+  currentDailyStreak,
+  dailyDate,
+  isBinaryQuestion,
+  LIFETIME_SCORING_RULE,
+  PlayerId,
+} from "../convex/validation";
+import { CalibrationData, CalibrationPlot } from "./CalibrationPlot";
+import { formatPlusMinusInt, useElementWidth } from "./lib/utils";
+import { useServerClock } from "./server-clock";
+
+export function Profile({
+  playerId,
+  onBack,
+}: {
+  playerId: PlayerId;
+  onBack: () => void;
+}) {
+  const profile = useQuery(api.profiles.getProfile, { playerId });
+  const container = useRef<HTMLDivElement>(null);
+  const containerWidth = useElementWidth(container);
+  const serverClock = useServerClock();
+
+  const calibrationData: CalibrationData[] = useMemo(
+    () =>
+      profile?.guesses.flatMap(({ question, answer, guess }) =>
+        typeof guess !== "number" ||
+        typeof answer !== "boolean" ||
+        !isBinaryQuestion(question)
+          ? []
+          : [{ prob: guess, question: { ...question, answer } }]
+      ) ?? [],
+    [profile]
+  );
+
+  return (
+    <div
+      className="bg-white p-6 rounded-lg shadow-xl w-full max-w-3xl mx-auto"
+      ref={container}
+    >
+      <div className="flex justify-between items-center mb-6 pb-4 border-b">
+        <h2 className="text-3xl font-bold text-primary">
+          {profile?.name || "Profile"}
+        </h2>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+        >
+          Back
+        </button>
+      </div>
+      {profile === undefined ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-6">
+            <Stat
+              label="Total score"
+              value={formatPlusMinusInt(profile.totalScore)}
+            />
+            <Stat label="Games played" value={String(profile.gamesPlayed)} />
+            <Stat label="Questions" value={String(profile.numGuesses)} />
+            <Stat
+              label="Avg per question"
+              value={
+                profile.numGuesses > 0
+                  ? formatPlusMinusInt(profile.totalScore / profile.numGuesses)
+                  : "—"
+              }
+            />
+            <Stat
+              label="Daily streak"
+              value={String(
+                currentDailyStreak(
+                  profile.dailyStreak,
+                  profile.lastDailyDate,
+                  dailyDate(serverClock())
+                )
+              )}
+            />
+            <Stat
+              label="Best daily streak"
+              value={String(profile.longestDailyStreak)}
+            />
+          </div>
+          {calibrationData.length > 0 ? (
+            <CalibrationPlot
+              data={calibrationData}
+              scoringRule={LIFETIME_SCORING_RULE}
+              width={containerWidth}
+            />
+          ) : (
+            <p className="text-center text-gray-600">
+              Finish a round to start building your record!
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-2 border rounded-md bg-blue-50 border-blue-200 text-center">
+      <div className="text-2xl font-bold text-blue-900">{value}</div>
+      <div className="text-sm text-blue-600">{label}</div>
+    </div>
+  );
+}
@@ -0,0 +1,519 @@
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import {
+  MAX_CHOICES,
+  MIN_CHOICES,
+  QUESTION_KIND_LABELS,
+  QUESTION_KINDS,
+  QuestionKind,
+  questionSchema,
+  zodErrorToString,
+} from "../convex/validation";
+import { errString, formatQuantity } from "./lib/utils";
+import { QuestionImportExport } from "./QuestionImportExport";
+
+type ListedQuestion = (typeof api.questions.listQuestions._returnType)[number];
+
+type QuestionFields = {
+  kind: QuestionKind;
+  text: string;
+  left: string;
+  right: string;
+  /** one option per line */
+  options: string;
+  min: string;
+  max: string;
+  unit: string;
+  /** "true"/"false", an option's index, or a number, depending on `kind` */
+  answer: string;
+  tags: string;
+};
+
+const EMPTY_FIELDS: QuestionFields = {
+  kind: "binary",
+  text: "",
+  left: "",
+  right: "",
+  options: "",
+  min: "",
+  max: "",
+  unit: "",
+  answer: "false",
+  tags: "",
+};
+
+function questionToFields(question: Doc<"questions">): QuestionFields {
+  const fields = {
+    ...EMPTY_FIELDS,
+    text: question.text,
+    answer: String(question.answer),
+    tags: question.tags.join(", "),
+  };
+  switch (question.kind) {
+    case "multipleChoice":
+      return {
+        ...fields,
+        kind: "multipleChoice",
+        options: question.options.join("\n"),
+      };
+    case "numeric":
+      return {
+        ...fields,
+        kind: "numeric",
+        min: String(question.min),
+        max: String(question.max),
+        unit: question.unit,
+      };
+    default:
+      return { ...fields, left: question.left, right: question.right };
+  }
+}
+
+/** Blank stays undefined, so the schema reports it as missing. */
+function parseNumberField(field: string): number | undefined {
+  return field.trim() === "" ? undefined : Number(field);
+}
+
+function parseQuestionFields(fields: QuestionFields) {
+  const common = {
+    kind: fields.kind,
+    text: fields.text,
+    tags: fields.tags
+      .split(",")
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0),
+  };
+  switch (fields.kind) {
+    case "multipleChoice":
+      return questionSchema.safeParse({
+        ...common,
+        options: fields.options
+          .split("\n")
+          .map((o) => o.trim())
+          .filter((o) => o.length > 0),
+        answer: Number(fields.answer),
+      });
+    case "numeric":
+      return questionSchema.safeParse({
+        ...common,
+        min: parseNumberField(fields.min),
+        max: parseNumberField(fields.max),
+        unit: fields.unit,
+        answer: parseNumberField(fields.answer),
+      });
+    default:
+      return questionSchema.safeParse({
+        ...common,
+        left: fields.left,
+        right: fields.right,
+        answer: fields.answer === "true",
+      });
+  }
+}
+
+export function QuestionBank({ onBack }: { onBack: () => void }) {
+  const questions = useQuery(api.questions.listQuestions);
+  const [editingId, setEditingId] = useState<Id<"questions"> | null>(null);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-3xl mx-auto">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b">
+        <h2 className="text-3xl font-bold text-primary">Questions</h2>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+        >
+          Back
+        </button>
+      </div>
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-700 mb-2">
+          Add a question
+        </h3>
+        <QuestionForm initial={EMPTY_FIELDS} submitLabel="Add" />
+      </div>
+      <div className="mb-6">
+        <h3 className="text-xl font-semibold text-gray-700 mb-2">
+          Import / export
+        </h3>
+        <QuestionImportExport />
+      </div>
+      <DisputeReviewList onEdit={setEditingId} />
+      <h3 className="text-xl font-semibold text-gray-700 mb-2">
+        All questions {questions && `(${questions.length})`}
+      </h3>
+      {questions === undefined ? (
+        <div className="flex justify-center items-center p-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {questions.map((q) =>
+            q._id === editingId && q.canEdit ? (
+              <li key={q._id} className="border rounded-md p-2">
+                <QuestionForm
+                  questionId={q._id}
+                  initial={questionToFields(q)}
+                  submitLabel="Save"
+                  onDone={() => setEditingId(null)}
+                />
+              </li>
+            ) : (
+              <QuestionRow
+                key={q._id}
+                question={q}
+                onEdit={() => setEditingId(q._id)}
+              />
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Questions whose answers a host has overruled in some game. */
+function DisputeReviewList({
+  onEdit,
+}: {
+  onEdit: (questionId: Id<"questions">) => void;
+}) {
+  const disputes = useQuery(api.disputes.listDisputesForReview);
+  const markReviewedMutation = useMutation(api.disputes.markDisputeReviewed);
+  if (!disputes || disputes.length === 0) return null;
+  return (
+    <div className="mb-6">
+      <h3 className="text-xl font-semibold text-gray-700 mb-2">
+        Disputed answers ({disputes.length})
+      </h3>
+      <ul className="flex flex-col gap-2">
+        {disputes.map((dispute) => (
+          <li
+            key={dispute._id}
+            className="border rounded-md p-2 flex flex-row items-center gap-2"
+          >
+            <div className="flex-grow">
+              <div className="text-gray-800">{dispute.round.question.text}</div>
+              <div className="text-sm text-gray-600">
+                {dispute.resolution === "voided"
+                  ? "Voided by a host"
+                  : "Answer flipped by a host"}
+                {dispute.reason && `: “${dispute.reason}”`}
+              </div>
+            </div>
+            {dispute.question && (
+              <button
+                onClick={() => onEdit(dispute.question!._id)}
+                className="px-2 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+              >
+                Edit question
+              </button>
+            )}
+            <button
+              onClick={() => {
+                markReviewedMutation({ disputeId: dispute._id }).catch(
+                  (error) => toast.error(errString(error))
+                );
+              }}
+              className="px-2 py-1 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+            >
+              Done
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function QuestionRow({
+  question,
+  onEdit,
+}: {
+  question: ListedQuestion;
+  onEdit: () => void;
+}) {
+  const deleteQuestionMutation = useMutation(api.questions.deleteQuestion);
+  const [isDeleting, setIsDeleting] = useState(false);
+  // Only the questions the player may edit come with their answers.
+  const answer = question.canEdit ? question.answer : undefined;
+  return (
+    <li className="border rounded-md p-2 flex flex-row items-center gap-2">
+      <div className="flex-grow">
+        <div className="text-gray-800">{question.text}</div>
+        <div className="text-sm">
+          {question.kind === "multipleChoice" ? (
+            question.options.map((option, i) => (
+              <span key={option}>
+                {i > 0 && " / "}
+                <span
+                  className={i === answer ? "text-green-600" : "text-gray-500"}
+                >
+                  {option}
+                </span>
+              </span>
+            ))
+          ) : question.kind === "numeric" ? (
+            <span className="text-gray-500">
+              {formatQuantity(question.min, "")} to{" "}
+              {formatQuantity(question.max, question.unit)}
+              {typeof answer === "number" && (
+                <>
+                  :{" "}
+                  <span className="text-green-600">
+                    {formatQuantity(answer, question.unit)}
+                  </span>
+                </>
+              )}
+            </span>
+          ) : (
+            <>
+              <span
+                className={
+                  answer === false ? "text-green-600" : "text-gray-500"
+                }
+              >
+                {question.left}
+              </span>
+              {" / "}
+              <span
+                className={answer === true ? "text-green-600" : "text-gray-500"}
+              >
+                {question.right}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex flex-row gap-1 mt-1">
+          {question.tags.map((tag) => (
+            <span
+              key={tag}
+              className="text-xs px-1 border rounded-md bg-gray-200 text-gray-700"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      </div>
+      <button
+        disabled={!question.canEdit}
+        onClick={onEdit}
+        className="px-2 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-50"
+      >
+        Edit
+      </button>
+      <button
+        disabled={!question.canEdit || isDeleting}
+        onClick={() => {
+          if (!window.confirm(`Delete "${question.text}"?`)) return;
+          setIsDeleting(true);
+          deleteQuestionMutation({ questionId: question._id })
+            .catch((error) => toast.error(errString(error)))
+            .finally(() => setIsDeleting(false));
+        }}
+        className="px-2 py-1 text-sm rounded bg-red-500 text-white hover:bg-red-600 transition-colors disabled:opacity-50"
+      >
+        Delete
+      </button>
+    </li>
+  );
+}
+
+function QuestionForm({
+  questionId,
+  initial,
+  submitLabel,
+  onDone,
+}: {
+  questionId?: Id<"questions">;
+  initial: QuestionFields;
+  submitLabel: string;
+  onDone?: () => void;
+}) {
+  const createQuestionMutation = useMutation(api.questions.createQuestion);
+  const updateQuestionMutation = useMutation(api.questions.updateQuestion);
+  const [fields, setFields] = useState(initial);
+  const parsed = useMemo(() => parseQuestionFields(fields), [fields]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(() => {
+    if (!parsed.success || isSubmitting) return;
+    setIsSubmitting(true);
+    (questionId
+      ? updateQuestionMutation({ questionId, question: parsed.data })
+      : createQuestionMutation({ question: parsed.data })
+    )
+      .then(() => {
+        toast.success(questionId ? "Question saved!" : "Question added!");
+        if (!questionId) setFields(EMPTY_FIELDS);
+        onDone?.();
+      })
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsSubmitting(false));
+  }, [
+    parsed,
+    isSubmitting,
+    questionId,
+    updateQuestionMutation,
+    createQuestionMutation,
+    onDone,
+  ]);
+
+  const inputClassName =
+    "px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <select
+        value={fields.kind}
+        onChange={(e) =>
+          setFields({
+            ...fields,
+            kind: e.target.value as QuestionKind,
+            answer: e.target.value === "numeric" ? "" : "0",
+          })
+        }
+        className={inputClassName}
+      >
+        {QUESTION_KINDS.map((kind) => (
+          <option key={kind} value={kind}>
+            {QUESTION_KIND_LABELS[kind]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="Question, e.g. ____ wrote the Sequences."
+        value={fields.text}
+        onChange={(e) => setFields({ ...fields, text: e.target.value })}
+        className={inputClassName}
+      />
+      {fields.kind === "multipleChoice" ? (
+        <>
+          <textarea
+            placeholder={`Options, one per line (${MIN_CHOICES} to ${MAX_CHOICES})`}
+            value={fields.options}
+            rows={MAX_CHOICES}
+            onChange={(e) => setFields({ ...fields, options: e.target.value })}
+            className={inputClassName}
+          />
+          <div className="flex flex-row flex-wrap gap-4 items-center text-sm text-gray-700">
+            Correct answer:
+            {fields.options
+              .split("\n")
+              .map((o) => o.trim())
+              .filter((o) => o.length > 0)
+              .map((option, i) => (
+                <label key={i}>
+                  <input
+                    type="radio"
+                    checked={fields.answer === String(i)}
+                    onChange={() => setFields({ ...fields, answer: String(i) })}
+                  />{" "}
+                  {option}
+                </label>
+              ))}
+          </div>
+        </>
+      ) : fields.kind === "numeric" ? (
+        <div className="grid grid-cols-4 gap-2">
+          {(["min", "max", "answer"] as const).map((field) => (
+            <input
+              key={field}
+              type="number"
+              placeholder={
+                field === "answer"
+                  ? "Answer"
+                  : field === "min"
+                    ? "Lowest plausible"
+                    : "Highest plausible"
+              }
+              value={fields[field]}
+              onChange={(e) =>
+                setFields({ ...fields, [field]: e.target.value })
+              }
+              className={inputClassName}
+            />
+          ))}
+          <input
+            type="text"
+            placeholder="Unit, e.g. km"
+            value={fields.unit}
+            onChange={(e) => setFields({ ...fields, unit: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              placeholder="Left option"
+              value={fields.left}
+              onChange={(e) => setFields({ ...fields, left: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              placeholder="Right option"
+              value={fields.right}
+              onChange={(e) => setFields({ ...fields, right: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-row gap-4 items-center text-sm text-gray-700">
+            Correct answer:
+            <label>
+              <input
+                type="radio"
+                checked={fields.answer !== "true"}
+                onChange={() => setFields({ ...fields, answer: "false" })}
+              />{" "}
+              Left
+            </label>
+            <label>
+              <input
+                type="radio"
+                checked={fields.answer === "true"}
+                onChange={() => setFields({ ...fields, answer: "true" })}
+              />{" "}
+              Right
+            </label>
+          </div>
+        </>
+      )}
+      <input
+        type="text"
+        placeholder="Tags, comma-separated"
+        value={fields.tags}
+        onChange={(e) => setFields({ ...fields, tags: e.target.value })}
+        className={inputClassName}
+      />
+      {parsed.error && fields !== initial && (
+        <div className="text-red-500 text-sm whitespace-pre-wrap">
+          {zodErrorToString(parsed.error)}
+        </div>
+      )}
+      <div className="flex flex-row gap-2 ml-auto">
+        {onDone && (
+          <button
+            onClick={onDone}
+            className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          disabled={!parsed.success || isSubmitting}
+          onClick={handleSubmit}
+          className="px-2 py-1 rounded bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useAuthToken } from "@convex-dev/auth/react";
+import { useCallback, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  QuestionFileFormat,
+  QuestionRowError,
+} from "../convex/questionFormats";
+import { TagFilter } from "../convex/validation";
+import { convexSiteUrl, errString } from "./lib/utils";
+
+function formatFromFileName(name: string): QuestionFileFormat {
+  return name.toLowerCase().endsWith(".csv") ? "csv" : "json";
+}
+
+function exportUrl(format: QuestionFileFormat, tagFilter?: TagFilter) {
+  const params = new URLSearchParams({ format });
+  if (tagFilter?.includeTags.length)
+    params.set("include", tagFilter.includeTags.join(","));
+  if (tagFilter?.excludeTags.length)
+    params.set("exclude", tagFilter.excludeTags.join(","));
+  return `${convexSiteUrl()}/questions/export?${params.toString()}`;
+}
+
+/**
+ * Upload a `.json` or `.csv` file of questions, or download the player's own
+ * questions matching `tagFilter` (all of them, if omitted) in either format.
+ */
+export function QuestionImportExport({ tagFilter }: { tagFilter?: TagFilter }) {
+  const authToken = useAuthToken();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [rowErrors, setRowErrors] = useState<QuestionRowError[]>([]);
+
+  const handleUpload = useCallback(
+    async (file: File) => {
+      setIsUploading(true);
+      setRowErrors([]);
+      try {
+        const format = formatFromFileName(file.name);
+        const response = await fetch(
+          `${convexSiteUrl()}/questions/import?format=${format}`,
+          {
+            method: "POST",
+            headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+            body: await file.text(),
+          }
+        );
+        const result = (await response.json()) as {
+          created?: number;
+          updated?: number;
+          errors: QuestionRowError[];
+        };
+        if (result.errors.length > 0) {
+          setRowErrors(result.errors);
+          toast.error(`Import failed: ${result.errors.length} invalid row(s)`);
+        } else {
+          toast.success(
+            `Imported ${result.created} new and ${result.updated} updated questions`
+          );
+        }
+      } catch (error) {
+        toast.error(errString(error));
+      } finally {
+        setIsUploading(false);
+        if (fileInput.current) fileInput.current.value = "";
+      }
+    },
+    [authToken]
+  );
+
+  const handleExport = useCallback(
+    async (format: QuestionFileFormat) => {
+      try {
+        const response = await fetch(exportUrl(format, tagFilter), {
+          headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        });
+        if (!response.ok) throw new Error(await response.text());
+        // A plain link can't send the auth token, so download it by hand.
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `questions.${format}`;
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (error) {
+        toast.error(errString(error));
+      }
+    },
+    [authToken, tagFilter]
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-row flex-wrap gap-2 items-center">
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file).catch(console.error);
+          }}
+        />
+        <button
+          disabled={isUploading}
+          onClick={() => fileInput.current?.click()}
+          className="px-2 py-1 text-sm rounded bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
+        >
+          {isUploading ? "Importing..." : "Import CSV/JSON"}
+        </button>
+        <span className="text-sm text-gray-600">Export:</span>
+        {(["json", "csv"] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => {
+              handleExport(format).catch(console.error);
+            }}
+            className="text-sm text-blue-600 underline"
+          >
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      {rowErrors.length > 0 && (
+        <ul className="text-red-500 text-sm whitespace-pre-wrap">
+          {rowErrors.map(({ row, message }, i) => (
+            <li key={i}>
+              <span className="font-semibold">
+                {typeof row === "number" ? `Row ${row}` : row}:
+              </span>{" "}
+              {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useMutation, useQuery } from "convex/react";
+import { Map as ImmutableMap } from "immutable";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { api } from "../convex/_generated/api";
+import { Doc } from "../convex/_generated/dataModel";
+import {
+  asInterval,
+  asProbability,
+  isBinaryQuestion,
+  PlayerId,
+  probabilityOnAnswer,
+  StartedGame,
+} from "../convex/validation";
+import {
+  cn,
+  errString,
+  formatAnswer,
+  formatGuess,
+  formatPlusMinusInt,
+  formatTimeRemaining,
+} from "./lib/utils";
+import { useServerNow } from "./server-clock";
+
+/**
+ * Shown between questions: the answer, where everyone's slider ended up,
+ * and how the round moved the leaderboard.
+ */
+export function RoundReveal({
+  game,
+  reveal,
+  scores,
+  anonDisplayNames,
+  playerId,
+}: {
+  game: StartedGame;
+  reveal: NonNullable<Doc<"games">["reveal"]>;
+  /** running totals, including this round */
+  scores: Record<PlayerId, number> | undefined;
+  anonDisplayNames: ImmutableMap<PlayerId, string>;
+  /** null on the spectator screen */
+  playerId: PlayerId | null;
+}) {
+  const results = useQuery(api.rounds.getRoundResults, {
+    roundId: reveal.roundId,
+  });
+  const now = useServerNow();
+  const nextRoundMutation = useMutation(api.games.nextRound);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+
+  const standings = useMemo(() => {
+    if (!results) return [];
+    const rows = results.guesses.map(({ playerId, guess, score }) => ({
+      playerId,
+      guess,
+      score,
+      total: scores?.[playerId] ?? score,
+    }));
+    const rankBy = (key: (row: (typeof rows)[number]) => number) =>
+      new Map(
+        [...rows]
+          .sort((a, b) => key(b) - key(a))
+          .map((row, i) => [row.playerId, i])
+      );
+    const rankBefore = rankBy((row) => row.total - row.score);
+    const rankAfter = rankBy((row) => row.total);
+    return rows
+      .map((row) => ({
+        ...row,
+        rankChange:
+          rankBefore.get(row.playerId)! - rankAfter.get(row.playerId)!,
+      }))
+      .sort((a, b) => b.total - a.total);
+  }, [results, scores]);
+
+  if (results === undefined) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const displayName = (id: PlayerId) =>
+    game.players[id]?.name || anonDisplayNames.get(id) || "Anonymous";
+
+  return (
+    <div className="flex flex-col items-center p-2 gap-2">
+      <p className="text-lg text-gray-800 text-center">
+        {results.question.text}
+      </p>
+      {isBinaryQuestion(results.question) ? (
+        <>
+          <div className="grid grid-cols-2 w-full text-xl font-bold">
+            <div
+              className={cn(
+                "text-red-500 text-left",
+                results.answer && "opacity-40 line-through"
+              )}
+            >
+              {results.question.left}
+            </div>
+            <div
+              className={cn(
+                "text-green-500 text-right",
+                !results.answer && "opacity-40 line-through"
+              )}
+            >
+              {results.question.right}
+            </div>
+          </div>
+          <div className="relative w-full h-8 rounded-md bg-gradient-to-r from-red-200 to-green-200">
+            {standings.map(({ playerId: id, guess }) => (
+              <div
+                key={id}
+                title={`${displayName(id)}: ${formatGuess(results.question, guess)}`}
+                className={cn(
+                  "absolute top-1 h-6 w-3 -ml-1.5 rounded-full border border-white",
+                  id === playerId ? "bg-blue-600 z-10" : "bg-gray-600"
+                )}
+                style={{ left: `${asProbability(guess) * 100}%` }}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="text-xl font-bold text-green-500">
+            {formatAnswer(results.question, results.answer)}
+          </div>
+          <div className="relative w-full h-8 rounded-md bg-gradient-to-r from-red-200 to-green-200">
+            {standings.map(({ playerId: id, guess }) => {
+              const { question, answer } = results;
+              const title = `${displayName(id)}: ${formatGuess(question, guess)}`;
+              const className = cn(
+                "absolute top-1 h-6 rounded-full border border-white",
+                id === playerId ? "bg-blue-600 z-10" : "bg-gray-600"
+              );
+              if (question.kind !== "numeric") {
+                const prob = probabilityOnAnswer(question, guess, answer)!;
+                return (
+                  <div
+                    key={id}
+                    title={title}
+                    className={cn(className, "w-3 -ml-1.5")}
+                    style={{ left: `${prob * 100}%` }}
+                  />
+                );
+              }
+              // Each interval as a translucent bar along the question's range.
+              const { lo, hi } = asInterval(guess);
+              const toPercent = (x: number) =>
+                ((x - question.min) / (question.max - question.min)) * 100;
+              return (
+                <div
+                  key={id}
+                  title={title}
+                  className={cn(className, "opacity-50 min-w-1")}
+                  style={{
+                    left: `${toPercent(lo)}%`,
+                    width: `${toPercent(hi) - toPercent(lo)}%`,
+                  }}
+                />
+              );
+            })}
+            {results.question.kind === "numeric" && (
+              <div
+                className="absolute top-0 h-8 w-0.5 bg-green-700 z-20"
+                style={{
+                  left: `${
+                    ((Number(results.answer) - results.question.min) /
+                      (results.question.max - results.question.min)) *
+                    100
+                  }%`,
+                }}
+              />
+            )}
+          </div>
+        </>
+      )}
+      <table className="w-full text-sm">
+        <tbody>
+          {standings.map(
+            ({ playerId: id, guess, score, total, rankChange }) => (
+              <tr key={id} className={cn(id === playerId && "font-bold")}>
+                <td>{displayName(id)}</td>
+                <td className="text-right">
+                  {formatGuess(results.question, guess)}
+                </td>
+                <td className="text-right">
+                  {formatPlusMinusInt(Math.round(score))}
+                </td>
+                <td className="text-right">
+                  {formatPlusMinusInt(Math.round(total))}
+                </td>
+                <td className="text-right w-8">
+                  {rankChange > 0 ? (
+                    <span className="text-green-600">▲{rankChange}</span>
+                  ) : rankChange < 0 ? (
+                    <span className="text-red-600">▼{-rankChange}</span>
+                  ) : null}
+                </td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+      <div className="flex flex-row items-center gap-2">
+        {reveal.endsAtMs !== null && (
+          <span className="font-mono text-blue-700">
+            {game.roundsRemaining === 0 ? "Final results" : "Next question"} in{" "}
+            {formatTimeRemaining(now, reveal.endsAtMs)}
+          </span>
+        )}
+        {game.hostPlayerId === playerId ? (
+          <button
+            disabled={isAdvancing || game.paused}
+            onClick={() => {
+              setIsAdvancing(true);
+              nextRoundMutation({ gameId: game._id })
+                .catch((error) => toast.error(errString(error)))
+                .finally(() => setIsAdvancing(false));
+            }}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Next
+          </button>
+        ) : (
+          reveal.endsAtMs === null && (
+            <span className="text-gray-600">
+              Waiting for the host to continue...
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
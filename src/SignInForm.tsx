@@ -0,0 +1,88 @@
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export function SignInForm() {
+  const { signIn } = useAuthActions();
+  const [flow, setFlow] = useState<"signIn" | "signUp">("signIn");
+  const [submitting, setSubmitting] = useState(false);
+
+  return (
+    <div className="w-full max-w-md mx-auto flex flex-col gap-4">
+      <button
+        disabled={submitting}
+        onClick={() => {
+          setSubmitting(true);
+          signIn("anonymous")
+            .catch(() => toast.error("Could not sign in as a guest"))
+            .finally(() => setSubmitting(false));
+        }}
+        className="w-full px-4 py-3 rounded bg-primary text-white font-semibold hover:bg-primary-hover transition-colors shadow-sm hover:shadow disabled:opacity-50"
+      >
+        Play as a guest
+      </button>
+      <div className="flex items-center justify-center my-2">
+        <hr className="my-4 grow" />
+        <span className="mx-4 text-gray-500">or keep your identity</span>
+        <hr className="my-4 grow" />
+      </div>
+      <form
+        className="flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSubmitting(true);
+          const formData = new FormData(e.currentTarget);
+          formData.set("flow", flow);
+          signIn("password", formData)
+            .catch((error) => {
+              const toastTitle =
+                error instanceof Error &&
+                error.message.includes("Invalid password")
+                  ? "Invalid password. Please try again."
+                  : flow === "signIn"
+                    ? "Could not sign in, did you mean to sign up?"
+                    : "Could not sign up, did you mean to sign in?";
+              toast.error(toastTitle);
+            })
+            .finally(() => setSubmitting(false));
+        }}
+      >
+        <input
+          className="w-full px-4 py-3 rounded-md bg-white border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm hover:shadow"
+          type="email"
+          name="email"
+          placeholder="Email"
+          required
+        />
+        <input
+          className="w-full px-4 py-3 rounded-md bg-white border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm hover:shadow"
+          type="password"
+          name="password"
+          placeholder="Password"
+          required
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-4 py-3 rounded bg-secondary text-white font-semibold hover:bg-secondary-hover transition-colors shadow-sm hover:shadow disabled:opacity-50"
+        >
+          {flow === "signIn" ? "Sign in" : "Sign up"}
+        </button>
+        <div className="text-center text-sm text-gray-600">
+          <span>
+            {flow === "signIn"
+              ? "Don't have an account? "
+              : "Already have an account? "}
+          </span>
+          <button
+            type="button"
+            className="text-primary hover:underline cursor-pointer"
+            onClick={() => setFlow(flow === "signIn" ? "signUp" : "signIn")}
+          >
+            {flow === "signIn" ? "Sign up instead" : "Sign in instead"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
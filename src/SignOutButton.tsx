@@ -0,0 +1,20 @@
+import { useAuthActions } from "@convex-dev/auth/react";
+import { useConvexAuth } from "convex/react";
+
+export function SignOutButton() {
+  const { isAuthenticated } = useConvexAuth();
+  const { signOut } = useAuthActions();
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <button
+      className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+      onClick={() => void signOut()}
+    >
+      Sign out
+    </button>
+  );
+}
@@ -0,0 +1,234 @@
+import { useQuery } from "convex/react";
+import { Map as ImmutableMap } from "immutable";
+import { useMemo } from "react";
+import QRCode from "react-qr-code";
+import { api } from "../convex/_generated/api";
+import { Doc } from "../convex/_generated/dataModel";
+import {
+  GameQuickId,
+  LobbyGame,
+  PlayerId,
+  RedactedQuestion,
+  StartedGame,
+} from "../convex/validation";
+import {
+  cn,
+  formatPlusMinusInt,
+  formatQuantity,
+  formatTimeRemaining,
+  getAnonDisplayNames,
+  getRecordEntries,
+} from "./lib/utils";
+import { RoundReveal } from "./RoundReveal";
+import { useServerNow } from "./server-clock";
+import { TeamStandings } from "./Teams";
+
+/**
+ * The big-screen view at `#ABCD/screen`, for projecting a game at a meetup.
+ * It watches without joining, so it needs no sign-in and never shows up in
+ * `players`.
+ */
+export function SpectatorScreen({ quickId }: { quickId: GameQuickId }) {
+  const game: StartedGame | LobbyGame | null | undefined = useQuery(
+    api.games.getGameByQuickId,
+    { quickId }
+  );
+  const anonDisplayNames = useMemo(
+    () => getAnonDisplayNames(game?.players ?? {}),
+    [game?.players]
+  );
+
+  if (game === undefined) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+  if (game === null) {
+    return (
+      <div className="flex justify-center items-center h-screen text-4xl text-gray-600">
+        There's no game {quickId}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen w-screen p-8 flex flex-row gap-8 bg-blue-50">
+      <div className="flex-grow flex flex-col items-center justify-center gap-8">
+        {game.started ? (
+          <ScreenGame game={game} anonDisplayNames={anonDisplayNames} />
+        ) : (
+          <div className="text-5xl font-bold text-primary text-center">
+            Waiting for the host to start...
+          </div>
+        )}
+      </div>
+      <div className="w-1/4 flex flex-col gap-6">
+        <JoinPanel quickId={game.quickId} large={!game.started} />
+        <ScreenLeaderboard game={game} anonDisplayNames={anonDisplayNames} />
+      </div>
+    </div>
+  );
+}
+
+function JoinPanel({
+  quickId,
+  large,
+}: {
+  quickId: GameQuickId;
+  /** before the game starts, when joining is the main event */
+  large: boolean;
+}) {
+  const joinUrl = `${window.location.origin}${window.location.pathname}#${quickId}`;
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-xl flex flex-col items-center gap-2">
+      <QRCode
+        value={joinUrl}
+        className={cn("w-full h-auto", !large && "max-w-48")}
+      />
+      <div className="text-2xl text-gray-700">Join with code</div>
+      <div className="text-6xl font-mono font-bold text-blue-700 tracking-widest">
+        {quickId}
+      </div>
+    </div>
+  );
+}
+
+function ScreenLeaderboard({
+  game,
+  anonDisplayNames,
+}: {
+  game: Doc<"games">;
+  anonDisplayNames: ImmutableMap<PlayerId, string>;
+}) {
+  const scores = useQuery(api.rounds.getScores, {
+    gameId: game._id,
+    run: game.run,
+  });
+  const rows = getRecordEntries(game.players)
+    .map(([id, { name }]) => ({
+      id,
+      name: name || anonDisplayNames.get(id) || "Anonymous",
+      score: scores?.[id] ?? 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-xl flex-grow overflow-hidden">
+      {game.started && (
+        <TeamStandings
+          gameId={game._id}
+          run={game.run}
+          players={game.players}
+          anonDisplayNames={anonDisplayNames}
+        />
+      )}
+      <table className="w-full text-2xl">
+        <tbody>
+          {rows.map(({ id, name, score }, i) => (
+            <tr key={id}>
+              <td className="text-gray-500 w-10">{i + 1}.</td>
+              <td className="font-bold text-gray-800 truncate">{name}</td>
+              <td className="text-right font-mono">
+                {game.started && formatPlusMinusInt(score)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ScreenGame({
+  game,
+  anonDisplayNames,
+}: {
+  game: StartedGame;
+  anonDisplayNames: ImmutableMap<PlayerId, string>;
+}) {
+  const currentRound = useQuery(api.games.getCurrentRound, {
+    gameId: game._id,
+  });
+  const scores = useQuery(api.rounds.getScores, {
+    gameId: game._id,
+    run: game.run,
+  });
+  const now = useServerNow();
+
+  if (currentRound === undefined) {
+    return (
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    );
+  }
+  if (currentRound) {
+    return (
+      <>
+        <div className="text-8xl font-mono font-semibold text-blue-700">
+          {currentRound.pausedWithMsLeft !== null
+            ? `Paused at ${formatTimeRemaining(0, currentRound.pausedWithMsLeft)}`
+            : formatTimeRemaining(now, currentRound.endsAtMs)}
+        </div>
+        <div className="text-5xl text-gray-800 text-center leading-tight">
+          {currentRound.question.text}
+        </div>
+        <ScreenQuestionChoices question={currentRound.question} />
+        <div className="text-3xl text-gray-500">
+          {currentRound.numMoved} of {currentRound.numGuessers} players have
+          moved their slider, {currentRound.numLockedIn} locked in
+        </div>
+      </>
+    );
+  }
+  if (game.reveal) {
+    return (
+      <div className="w-full text-2xl">
+        <RoundReveal
+          game={game}
+          reveal={game.reveal}
+          scores={scores}
+          anonDisplayNames={anonDisplayNames}
+          playerId={null}
+        />
+      </div>
+    );
+  }
+  if (game.roundsRemaining === 0) {
+    return <div className="text-7xl font-bold text-primary">Game over!</div>;
+  }
+  return <div className="text-5xl text-gray-600">Get ready...</div>;
+}
+
+/** What players are choosing between, in letters big enough for the back row. */
+function ScreenQuestionChoices({ question }: { question: RedactedQuestion }) {
+  switch (question.kind) {
+    case "multipleChoice":
+      return (
+        <div className="grid grid-cols-2 gap-4 text-4xl font-bold text-gray-700">
+          {question.options.map((option) => (
+            <div
+              key={option}
+              className="px-6 py-3 border-2 border-blue-300 rounded-md bg-white text-center"
+            >
+              {option}
+            </div>
+          ))}
+        </div>
+      );
+    case "numeric":
+      return (
+        <div className="text-4xl text-gray-700">
+          Somewhere from {formatQuantity(question.min, question.unit)} to{" "}
+          {formatQuantity(question.max, question.unit)}
+        </div>
+      );
+    default:
+      return (
+        <div className="flex flex-row gap-16 text-6xl font-bold">
+          <span className="text-red-500">{question.left}</span>
+          <span className="text-gray-400">or</span>
+          <span className="text-green-500">{question.right}</span>
+        </div>
+      );
+  }
+}
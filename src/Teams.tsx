@@ -0,0 +1,190 @@
+import { useMutation, useQuery } from "convex/react";
+import { Map as ImmutableMap } from "immutable";
+import { useState } from "react";
+import { toast } from "sonner";
+import { api } from "../convex/_generated/api";
+import { Doc, Id } from "../convex/_generated/dataModel";
+import {
+  LobbyGame,
+  PlayerId,
+  TEAM_AGGREGATION_LABELS,
+  TEAM_AGGREGATIONS,
+  TEAM_NAMES,
+  teamAggregationSchema,
+  teamNameSchema,
+} from "../convex/validation";
+import {
+  cn,
+  errString,
+  formatPlusMinusInt,
+  getRecordEntries,
+} from "./lib/utils";
+
+const TEAM_COLORS: Record<string, string> = {
+  Red: "bg-red-100 border-red-400",
+  Blue: "bg-blue-100 border-blue-400",
+  Green: "bg-green-100 border-green-400",
+  Gold: "bg-yellow-100 border-yellow-400",
+};
+
+const selectClassName =
+  "px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm disabled:bg-gray-100";
+
+/** The lobby's team mode setting and, in team mode, who's on which team. */
+export function TeamSettings({
+  game,
+  playerId,
+  anonDisplayNames,
+}: {
+  game: LobbyGame;
+  playerId: PlayerId;
+  anonDisplayNames: ImmutableMap<PlayerId, string>;
+}) {
+  const updateSettingsMutation = useMutation(api.games.updateGameSettings);
+  const setPlayerTeamMutation = useMutation(api.teams.setPlayerTeam);
+  const setTeamCaptainMutation = useMutation(api.teams.setTeamCaptain);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const run = (promise: Promise<unknown>) => {
+    setIsSubmitting(true);
+    promise
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsSubmitting(false));
+  };
+  const isHost = game.hostPlayerId === playerId;
+
+  return (
+    <>
+      <div className="w-full grid grid-cols-3 gap-2 items-center">
+        <label
+          htmlFor="teamAggregation"
+          className="block text-sm font-medium text-gray-700 mb-1 text-right col-span-1"
+        >
+          Teams
+        </label>
+        <select
+          id="teamAggregation"
+          value={game.teamAggregation ?? "none"}
+          disabled={isSubmitting || !isHost}
+          onChange={(e) =>
+            run(
+              updateSettingsMutation({
+                gameId: game._id,
+                teamAggregation:
+                  e.target.value === "none"
+                    ? null
+                    : teamAggregationSchema.parse(e.target.value),
+              })
+            )
+          }
+          className={cn("col-span-2", selectClassName)}
+        >
+          <option value="none">Everyone for themselves</option>
+          {TEAM_AGGREGATIONS.map((aggregation) => (
+            <option key={aggregation} value={aggregation}>
+              Teams: {TEAM_AGGREGATION_LABELS[aggregation]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {game.teamAggregation !== null && (
+        <div className="flex flex-col gap-1 text-sm">
+          {getRecordEntries(game.players).map(([id, player]) => (
+            <div key={id} className="flex flex-row items-center gap-2">
+              <span className="flex-grow text-right">
+                {player.name || anonDisplayNames.get(id)}
+                {id === playerId && " (you)"}
+              </span>
+              <select
+                value={player.team ?? "none"}
+                disabled={isSubmitting || !(isHost || id === playerId)}
+                onChange={(e) =>
+                  run(
+                    setPlayerTeamMutation({
+                      gameId: game._id,
+                      teamPlayerId: id,
+                      team:
+                        e.target.value === "none"
+                          ? null
+                          : teamNameSchema.parse(e.target.value),
+                    })
+                  )
+                }
+                className={selectClassName}
+              >
+                <option value="none">No team</option>
+                {TEAM_NAMES.map((team) => (
+                  <option key={team} value={team}>
+                    {team}
+                  </option>
+                ))}
+              </select>
+              {game.teamAggregation === "captain" && (
+                <button
+                  disabled={
+                    isSubmitting || !isHost || !player.team || player.captain
+                  }
+                  title={player.captain ? "Captain" : "Make captain"}
+                  onClick={() =>
+                    run(
+                      setTeamCaptainMutation({
+                        gameId: game._id,
+                        captainPlayerId: id,
+                      })
+                    )
+                  }
+                  className={cn(
+                    "w-6",
+                    !player.captain && "opacity-25 hover:opacity-100"
+                  )}
+                >
+                  ⭐
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Each team's running total, best first. Renders nothing outside team mode. */
+export function TeamStandings({
+  gameId,
+  run,
+  players,
+  anonDisplayNames,
+}: {
+  gameId: Id<"games">;
+  run: number;
+  players: Doc<"games">["players"];
+  anonDisplayNames: ImmutableMap<PlayerId, string>;
+}) {
+  const teamScores = useQuery(api.teams.getTeamScores, { gameId, run });
+  if (!teamScores) return null;
+  return (
+    <div className="flex flex-row gap-2 mb-2 w-full items-center justify-center mx-auto">
+      {[...teamScores]
+        .sort((a, b) => b.score - a.score)
+        .map(({ team, memberIds, score }) => (
+          <div
+            key={team}
+            className={cn(
+              "text-gray-800 px-2 py-0 border rounded-md flex flex-col items-center",
+              TEAM_COLORS[team]
+            )}
+            title={memberIds
+              .map(
+                (id) =>
+                  (players[id]?.name || anonDisplayNames.get(id)) +
+                  (players[id]?.captain ? " ⭐" : "")
+              )
+              .join(", ")}
+          >
+            <div className="font-bold">{team}</div>
+            <div>{formatPlusMinusInt(score)}</div>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useMutation, useQuery } from "convex/react";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import {
+  GameQuickId,
+  gameQuickIdSchema,
+  gameSecondsPerQuestionSchema,
+  PlayerId,
+  SCORING_RULE_LABELS,
+  SCORING_RULES,
+  ScoringRule,
+  scoringRuleSchema,
+  tournamentHoursOpenSchema,
+} from "../convex/validation";
+import { cn, errString, formatPlusMinusInt, ifEnter } from "./lib/utils";
+import { useServerClock } from "./server-clock";
+
+/** Choices for how long a new tournament stays open, in hours. */
+const HOURS_OPEN_OPTIONS = [1, 24, 72, 168];
+
+/**
+ * Creating, finding and playing tournaments: fixed question sets that each
+ * player plays through on their own time.
+ */
+export function Tournaments({
+  quickId,
+  setQuickId,
+  playerId,
+  onPlay,
+  onBack,
+}: {
+  /** the tournament being looked at, if any */
+  quickId: GameQuickId | null;
+  setQuickId: (quickId: GameQuickId | null) => void;
+  playerId: PlayerId;
+  /** called with the player's run, to switch to it */
+  onPlay: (run: { id: Id<"games">; quickId: GameQuickId }) => void;
+  onBack: () => void;
+}) {
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-xl w-full max-w-lg mx-auto">
+      <div className="flex justify-between items-center mb-6 pb-4 border-b">
+        <h2 className="text-3xl font-bold text-primary">
+          {quickId ? `Tournament ${quickId}` : "Tournaments"}
+        </h2>
+        <button
+          onClick={quickId ? () => setQuickId(null) : onBack}
+          className="px-4 py-2 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+        >
+          Back
+        </button>
+      </div>
+      {quickId ? (
+        <TournamentView quickId={quickId} playerId={playerId} onPlay={onPlay} />
+      ) : (
+        <div className="flex flex-col gap-8">
+          <FindTournamentForm onFind={setQuickId} />
+          <CreateTournamentForm onCreate={setQuickId} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FindTournamentForm({
+  onFind,
+}: {
+  onFind: (quickId: GameQuickId) => void;
+}) {
+  const [quickIdField, setQuickIdField] = useState("");
+  const quickId = useMemo(
+    () => gameQuickIdSchema.safeParse(quickIdField).data,
+    [quickIdField]
+  );
+  return (
+    <div className="flex flex-row gap-2">
+      <input
+        type="text"
+        value={quickIdField}
+        onChange={(e) => setQuickIdField(e.target.value)}
+        onKeyDown={ifEnter(() => quickId && onFind(quickId))}
+        maxLength={4}
+        placeholder="ABCD"
+        className="flex-grow px-4 py-2 rounded-md bg-white border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm"
+      />
+      <button
+        disabled={!quickId}
+        onClick={() => quickId && onFind(quickId)}
+        className="px-4 py-2 rounded bg-secondary text-white font-semibold transition-colors shadow-sm hover:shadow disabled:opacity-50"
+      >
+        Find tournament
+      </button>
+    </div>
+  );
+}
+
+function CreateTournamentForm({
+  onCreate,
+}: {
+  onCreate: (quickId: GameQuickId) => void;
+}) {
+  const createTournamentMutation = useMutation(
+    api.tournaments.createTournament
+  );
+  const [numQuestionsF, setNumQuestionsF] = useState("10");
+  const [secondsPerQuestionF, setSecondsPerQuestionF] = useState("10");
+  const [scoringRule, setScoringRule] = useState<ScoringRule>("log");
+  const [hoursOpen, setHoursOpen] = useState(24);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const numQuestions = useMemo(
+    () => z.coerce.number().int().min(1).safeParse(numQuestionsF),
+    [numQuestionsF]
+  );
+  const secondsPerQuestion = useMemo(
+    () =>
+      z.coerce
+        .number()
+        .pipe(gameSecondsPerQuestionSchema)
+        .safeParse(secondsPerQuestionF),
+    [secondsPerQuestionF]
+  );
+
+  const handleCreate = () => {
+    if (!numQuestions.success || !secondsPerQuestion.success) return;
+    setIsCreating(true);
+    createTournamentMutation({
+      numQuestions: numQuestions.data,
+      secondsPerQuestion: secondsPerQuestion.data,
+      scoringRule,
+      hoursOpen: tournamentHoursOpenSchema.parse(hoursOpen),
+    })
+      .then(({ quickId }) => onCreate(gameQuickIdSchema.parse(quickId)))
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsCreating(false));
+  };
+
+  const inputClassName =
+    "col-span-2 px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm";
+  const labelClassName =
+    "block text-sm font-medium text-gray-700 text-right col-span-1";
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="text-xl font-semibold text-gray-700">New tournament</h3>
+      <div className="grid grid-cols-3 gap-2 items-center">
+        <label htmlFor="tournamentQuestions" className={labelClassName}>
+          Questions
+        </label>
+        <input
+          id="tournamentQuestions"
+          type="number"
+          value={numQuestionsF}
+          onChange={(e) => setNumQuestionsF(e.target.value)}
+          className={cn(inputClassName, !numQuestions.success && "bg-red-100")}
+        />
+        <label htmlFor="tournamentSeconds" className={labelClassName}>
+          Seconds per question
+        </label>
+        <input
+          id="tournamentSeconds"
+          type="number"
+          value={secondsPerQuestionF}
+          onChange={(e) => setSecondsPerQuestionF(e.target.value)}
+          className={cn(
+            inputClassName,
+            !secondsPerQuestion.success && "bg-red-100"
+          )}
+        />
+        <label htmlFor="tournamentScoring" className={labelClassName}>
+          Scoring
+        </label>
+        <select
+          id="tournamentScoring"
+          value={scoringRule}
+          onChange={(e) =>
+            setScoringRule(scoringRuleSchema.parse(e.target.value))
+          }
+          className={inputClassName}
+        >
+          {SCORING_RULES.map((rule) => (
+            <option key={rule} value={rule}>
+              {SCORING_RULE_LABELS[rule]}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="tournamentHoursOpen" className={labelClassName}>
+          Open for
+        </label>
+        <select
+          id="tournamentHoursOpen"
+          value={hoursOpen}
+          onChange={(e) => setHoursOpen(parseInt(e.target.value))}
+          className={inputClassName}
+        >
+          {HOURS_OPEN_OPTIONS.map((hours) => (
+            <option key={hours} value={hours}>
+              {hours < 24
+                ? `${hours} hour${hours === 1 ? "" : "s"}`
+                : `${hours / 24} day${hours === 24 ? "" : "s"}`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        disabled={
+          isCreating || !numQuestions.success || !secondsPerQuestion.success
+        }
+        onClick={handleCreate}
+        className="w-full px-4 py-3 rounded bg-primary text-white font-semibold hover:bg-primary-hover transition-colors shadow-sm hover:shadow disabled:opacity-50"
+      >
+        Create tournament
+      </button>
+    </div>
+  );
+}
+
+function TournamentView({
+  quickId,
+  playerId,
+  onPlay,
+}: {
+  quickId: GameQuickId;
+  playerId: PlayerId;
+  onPlay: (run: { id: Id<"games">; quickId: GameQuickId }) => void;
+}) {
+  const tournament = useQuery(api.tournaments.getTournament, { quickId });
+  const playTournamentMutation = useMutation(api.tournaments.playTournament);
+  const [name, setName] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+  const serverClock = useServerClock();
+
+  if (tournament === undefined) {
+    return (
+      <div className="flex justify-center items-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+  if (tournament === null) {
+    return (
+      <p className="text-center text-gray-600">
+        There's no tournament {quickId}.
+      </p>
+    );
+  }
+
+  const isOpen = serverClock() < tournament.deadlineMs;
+  const handlePlay = () => {
+    setIsStarting(true);
+    playTournamentMutation({ tournamentId: tournament._id, playerName: name })
+      .then(({ _id, quickId }) =>
+        onPlay({ id: _id, quickId: gameQuickIdSchema.parse(quickId) })
+      )
+      .catch((error) => toast.error(errString(error)))
+      .finally(() => setIsStarting(false));
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-gray-700">
+        {tournament.numQuestions} questions, {tournament.secondsPerQuestion}{" "}
+        seconds each, scored by{" "}
+        {SCORING_RULE_LABELS[tournament.scoringRule].toLowerCase()}.{" "}
+        {isOpen
+          ? `Open until ${new Date(tournament.deadlineMs).toLocaleString()}.`
+          : "Closed."}
+      </p>
+      <div className="flex flex-row gap-2">
+        <input
+          type="text"
+          placeholder="Your name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-grow px-3 py-2 rounded-md border border-gray-300 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-shadow shadow-sm"
+        />
+        <button
+          disabled={isStarting}
+          onClick={handlePlay}
+          className="px-4 py-2 rounded bg-green-500 text-white font-semibold hover:bg-green-600 transition-colors shadow-sm hover:shadow disabled:opacity-50"
+        >
+          Play
+        </button>
+      </div>
+      <TournamentStandings tournamentId={tournament._id} playerId={playerId} />
+    </div>
+  );
+}
+
+/** The shared leaderboard across everyone's runs of a tournament. */
+export function TournamentStandings({
+  tournamentId,
+  playerId,
+}: {
+  tournamentId: Id<"tournaments">;
+  playerId: PlayerId;
+}) {
+  const standings = useQuery(api.tournaments.getTournamentStandings, {
+    tournamentId,
+  });
+  if (!standings || standings.length === 0) return null;
+  return (
+    <div className="w-full my-2">
+      <h3 className="text-lg font-semibold text-gray-700 text-center">
+        Tournament standings
+      </h3>
+      <table className="mx-auto text-sm">
+        <tbody>
+          {standings.map(
+            ({ playerId: id, name, score, numRoundsPlayed, finished }, i) => (
+              <tr key={id} className={cn(id === playerId && "font-bold")}>
+                <td className="pr-2 text-gray-500">{i + 1}.</td>
+                <td className="pr-4">{name || "Anonymous"}</td>
+                <td className="text-right">{formatPlusMinusInt(score)}</td>
+                <td className="pl-4 text-gray-500">
+                  {finished ? "" : `playing (${numRoundsPlayed} done)`}
+                </td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
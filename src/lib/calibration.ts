@@ -0,0 +1,91 @@
+/** Upper edges of the confidence bins; the first bin starts at 50%. */
+const BIN_EDGES = [0.6, 0.7, 0.8, 0.9, 1.0];
+
+export type CalibrationBin = {
+  lo: number;
+  hi: number;
+  count: number;
+  /** mean confidence in the favored side */
+  meanConfidence: number;
+  /** fraction of guesses whose favored side was right */
+  hitRate: number;
+  /** 95% Wilson score interval around `hitRate` */
+  hitRateLo: number;
+  hitRateHi: number;
+};
+
+export type CalibrationSummary = {
+  bins: CalibrationBin[];
+  count: number;
+  /** mean squared error of the stated probability (0 is perfect, 0.25 is coin-flipping) */
+  brierScore: number;
+  meanConfidence: number;
+  hitRate: number;
+  /** `meanConfidence - hitRate`: positive means overconfident */
+  overconfidence: number;
+};
+
+/**
+ * Folds each guess onto the side it favored (so 20% on the right is 80% on
+ * the left), then buckets those confidences to compare stated probability
+ * against how often the favored side turned out right.
+ */
+export function summarizeCalibration(
+  guesses: { prob: number; answer: boolean }[]
+): CalibrationSummary | null {
+  if (guesses.length === 0) return null;
+
+  const folded = guesses.map(({ prob, answer }) => ({
+    confidence: Math.max(prob, 1 - prob),
+    correct: prob >= 0.5 ? answer : !answer,
+  }));
+
+  const bins: CalibrationBin[] = [];
+  let lo = 0.5;
+  for (const hi of BIN_EDGES) {
+    const inBin = folded.filter(
+      ({ confidence }) => confidence >= lo && (confidence < hi || hi === 1)
+    );
+    if (inBin.length > 0) {
+      const hits = inBin.filter(({ correct }) => correct).length;
+      const [hitRateLo, hitRateHi] = wilsonInterval(hits, inBin.length);
+      bins.push({
+        lo,
+        hi,
+        count: inBin.length,
+        meanConfidence: mean(inBin.map(({ confidence }) => confidence)),
+        hitRate: hits / inBin.length,
+        hitRateLo,
+        hitRateHi,
+      });
+    }
+    lo = hi;
+  }
+
+  const meanConfidence = mean(folded.map(({ confidence }) => confidence));
+  const hitRate =
+    folded.filter(({ correct }) => correct).length / folded.length;
+  return {
+    bins,
+    count: guesses.length,
+    brierScore: mean(
+      guesses.map(({ prob, answer }) => (prob - (answer ? 1 : 0)) ** 2)
+    ),
+    meanConfidence,
+    hitRate,
+    overconfidence: meanConfidence - hitRate,
+  };
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+function wilsonInterval(successes: number, n: number, z = 1.96) {
+  const p = successes / n;
+  const denominator = 1 + (z * z) / n;
+  const center = (p + (z * z) / (2 * n)) / denominator;
+  const halfWidth =
+    (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return [Math.max(0, center - halfWidth), Math.min(1, center + halfWidth)];
+}
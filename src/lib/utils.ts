@@ -1,8 +1,20 @@
 import { clsx, type ClassValue } from "clsx";
 import { ConvexError } from "convex/values";
-import { List } from "immutable";
-import { useEffect, useState } from "react";
+import { List, Map } from "immutable";
+import { RefObject, useEffect, useState } from "react";
 import { twMerge } from "tailwind-merge";
+import {
+  Answer,
+  asDistribution,
+  asInterval,
+  asProbability,
+  CROWD_FORECASTERS,
+  CrowdForecaster,
+  Guess,
+  RedactedQuestion,
+  scoreBinaryGuess,
+  ScoringRule,
+} from "../../convex/validation";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -34,6 +46,50 @@ export function formatPlusMinusInt(n: number): string {
   return n > 0 ? `+${n.toFixed(0)}` : n.toFixed(0);
 }
 
+export function formatQuantity(value: number, unit: string): string {
+  const formatted = value.toLocaleString(undefined, {
+    maximumSignificantDigits: 4,
+  });
+  return unit ? `${formatted} ${unit}` : formatted;
+}
+
+/** The correct answer to a question, as players would read it. */
+export function formatAnswer(question: RedactedQuestion, answer: Answer) {
+  switch (question.kind) {
+    case "multipleChoice":
+      return question.options[Number(answer)];
+    case "numeric":
+      return formatQuantity(Number(answer), question.unit);
+    default:
+      return answer ? question.right : question.left;
+  }
+}
+
+/** A short summary of a guess: the favored option, or the interval. */
+export function formatGuess(question: RedactedQuestion, guess: Guess) {
+  switch (question.kind) {
+    case "multipleChoice": {
+      const probs = asDistribution(guess);
+      const favorite = probs.indexOf(Math.max(...probs));
+      return `${formatProbabilityAsPercentage(probs[favorite])} on ${question.options[favorite]}`;
+    }
+    case "numeric": {
+      const { lo, hi } = asInterval(guess);
+      return `${formatQuantity(lo, "")} to ${formatQuantity(hi, question.unit)}`;
+    }
+    default:
+      return `${formatProbabilityAsPercentage(asProbability(guess))} on ${question.right}`;
+  }
+}
+
+/** Base URL for the HTTP routes in `convex/router.ts`. */
+export function convexSiteUrl(): string {
+  return (
+    (import.meta.env.VITE_CONVEX_SITE_URL as string | undefined) ??
+    (import.meta.env.VITE_CONVEX_URL as string).replace(/\.cloud$/, ".site")
+  );
+}
+
 export function errString(error: unknown): string {
   if (error instanceof ConvexError) {
     return String(error.data.message ?? error.data);
@@ -60,15 +116,66 @@ export const ANON_DISPLAY_NAMES = List([
   "???",
 ]);
 
-export function useNow() {
-  const [now, setNow] = useState(Date.now());
+/** Each crowd forecaster's total over the given rounds. */
+export function getCrowdScores(
+  rounds: {
+    answer: boolean;
+    voided: boolean;
+    scoringRule: ScoringRule;
+    forecasts: Record<CrowdForecaster, number>;
+  }[]
+): Record<CrowdForecaster, number> {
+  const res = Object.fromEntries(
+    CROWD_FORECASTERS.map((f) => [f, 0])
+  ) as Record<CrowdForecaster, number>;
+  for (const round of rounds) {
+    if (round.voided) continue;
+    for (const forecaster of CROWD_FORECASTERS) {
+      res[forecaster] += scoreBinaryGuess(
+        round.forecasts[forecaster],
+        round.answer,
+        round.scoringRule
+      );
+    }
+  }
+  return res;
+}
+
+/** Stable stand-in names for players who haven't picked one. */
+export function getAnonDisplayNames<K extends string>(
+  players: Record<K, unknown>
+): Map<K, string> {
+  const ids = List(getRecordEntries(players).map(([id]) => id)).sort();
+  return Map(
+    ids.map((id, i) => [
+      id,
+      ANON_DISPLAY_NAMES.get(i % ANON_DISPLAY_NAMES.size)!,
+    ])
+  );
+}
+
+/** Tracks the rendered width of `ref`'s element, e.g. to size a plot. */
+export function useElementWidth(
+  ref: RefObject<HTMLElement | null>,
+  initialWidth = 600
+) {
+  const [width, setWidth] = useState(initialWidth);
   useEffect(() => {
-    const interval = setInterval(() => {
-      setNow(Date.now());
-    }, 41);
-    return () => clearInterval(interval);
-  }, []);
-  return now;
+    const resizeObserver = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setWidth(entry.contentRect.width);
+      }
+    });
+
+    if (ref.current) {
+      resizeObserver.observe(ref.current);
+    }
+
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, [ref]);
+  return width;
 }
 
 export function formatTimeRemaining(now: number, endsAtMs: number): string {
@@ -1,17 +1,25 @@
 import { createRoot } from "react-dom/client";
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { ConvexReactClient } from "convex/react";
+import { ConvexAuthProvider } from "@convex-dev/auth/react";
 import "./index.css";
-import App from "./App";
+import App, { SpectatorApp } from "./App";
 import { gameQuickIdSchema } from "../convex/validation";
 
 const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL as string);
 
-const gameQuickIdFromHash = gameQuickIdSchema.safeParse(
-  window.location.hash.slice(1)
-);
+// `#ABCD` joins game ABCD; `#ABCD/screen` watches it on the big screen;
+// `#ABCD/tournament` opens tournament ABCD.
+const [hashQuickId, hashView] = window.location.hash.slice(1).split("/");
+const quickIdFromHash = gameQuickIdSchema.safeParse(hashQuickId);
 
 createRoot(document.getElementById("probable-panic-root")!).render(
-  <ConvexProvider client={convex}>
-    <App gameQuickIdFromHash={gameQuickIdFromHash.data} />
-  </ConvexProvider>
+  <ConvexAuthProvider client={convex}>
+    {hashView === "screen" && quickIdFromHash.data ? (
+      <SpectatorApp quickId={quickIdFromHash.data} />
+    ) : hashView === "tournament" ? (
+      <App tournamentQuickIdFromHash={quickIdFromHash.data} />
+    ) : (
+      <App gameQuickIdFromHash={quickIdFromHash.data} />
+    )}
+  </ConvexAuthProvider>
 );
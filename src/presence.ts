@@ -0,0 +1,51 @@
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useEffect, useState } from "react";
+import { api } from "../convex/_generated/api";
+import { Id } from "../convex/_generated/dataModel";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  isOnline,
+  PlayerId,
+} from "../convex/validation";
+import { useServerClock } from "./server-clock";
+
+/** Keeps telling the server the player is still in the game, while mounted. */
+export function useHeartbeat(gameId: Id<"games"> | null) {
+  const heartbeatMutation = useMutation(api.presence.heartbeat);
+  useEffect(() => {
+    if (gameId === null) return;
+    const beat = () => {
+      heartbeatMutation({ gameId }).catch((error) =>
+        console.error("Heartbeat failed:", error)
+      );
+    };
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [gameId, heartbeatMutation]);
+}
+
+/**
+ * Whether each of the game's players is still around, re-checked every
+ * heartbeat so that players drop off even when nothing else changes.
+ */
+export function useIsOnline(
+  gameId: Id<"games">
+): (playerId: PlayerId) => boolean {
+  const lastSeen = useQuery(api.presence.getLastSeen, { gameId });
+  const serverClock = useServerClock();
+  const [now, setNow] = useState(serverClock);
+  useEffect(() => {
+    const interval = setInterval(
+      () => setNow(serverClock()),
+      HEARTBEAT_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [serverClock]);
+  return useCallback(
+    // Until presence loads, assume everyone's here rather than flash them
+    // all offline.
+    (playerId) => lastSeen === undefined || isOnline(lastSeen[playerId], now),
+    [lastSeen, now]
+  );
+}
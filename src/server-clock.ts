@@ -0,0 +1,77 @@
+import { useConvex } from "convex/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { api } from "../convex/_generated/api";
+
+const NUM_SYNC_SAMPLES = 5;
+const RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Estimated `serverMs - clientMs`; 0 until the first sync finishes. */
+const clockOffsetContext = createContext<number>(0);
+
+/** Provides the result of `useClockSync` to `useServerNow`. */
+export const ClockOffsetProvider = clockOffsetContext.Provider;
+
+/**
+ * Pings the server several times and keeps the offset measured by the
+ * fastest round trip, assuming the server read its clock halfway through.
+ * Re-syncs periodically, since client clocks drift and get adjusted.
+ */
+export function useClockSync(): number {
+  const convex = useConvex();
+  const [offsetMs, setOffsetMs] = useState(0);
+  useEffect(() => {
+    let cancelled = false;
+    const sync = async () => {
+      let best: { roundTripMs: number; offsetMs: number } | null = null;
+      for (let i = 0; i < NUM_SYNC_SAMPLES && !cancelled; i++) {
+        const clientSentAtMs = Date.now();
+        const { serverMs } = await convex.query(api.clock.ping, {
+          clientSentAtMs,
+        });
+        const roundTripMs = Date.now() - clientSentAtMs;
+        if (best === null || roundTripMs < best.roundTripMs) {
+          best = {
+            roundTripMs,
+            offsetMs: serverMs - (clientSentAtMs + roundTripMs / 2),
+          };
+        }
+      }
+      if (!cancelled && best !== null) setOffsetMs(best.offsetMs);
+    };
+    const runSync = () => {
+      sync().catch((error) => console.error("Clock sync failed:", error));
+    };
+    runSync();
+    const interval = setInterval(runSync, RESYNC_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [convex]);
+  return offsetMs;
+}
+
+/** The server's current time in ms, re-rendering every few frames. */
+export function useServerNow(): number {
+  const offsetMs = useContext(clockOffsetContext);
+  const [clientNow, setClientNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setClientNow(Date.now());
+    }, 41);
+    return () => clearInterval(interval);
+  }, []);
+  return clientNow + offsetMs;
+}
+
+/** Reads the server's current time once, e.g. inside an event handler. */
+export function useServerClock(): () => number {
+  const offsetMs = useContext(clockOffsetContext);
+  return useCallback(() => Date.now() + offsetMs, [offsetMs]);
+}